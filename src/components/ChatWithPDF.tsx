@@ -5,6 +5,10 @@ import rehypeKatex from 'rehype-katex';
 import { PDFDocument } from './PDFManager';
 import { RAGService } from '../services/ragService';
 import { databaseService, ChatMessage, Conversation } from '../services/databaseService';
+import { BibliographyEntry } from '../services/bibliographyParser';
+import { UsageMeter, UsageTotals } from '../services/usageMeter';
+import { BudgetExceededError } from '../services/usageLedger';
+import { ModelPricing } from '../services/modelPricing';
 
 // Simple debounce utility
 function debounce<T extends (...args: any[]) => any>(func: T, wait: number): T {
@@ -15,6 +19,36 @@ function debounce<T extends (...args: any[]) => any>(func: T, wait: number): T {
   }) as T;
 }
 
+// Format where a source comes from, e.g. "§3.2 Remedies, p. xiv" or "pp. 12–13" when it crosses a page break
+function formatSourceLocation(source: {
+  pageNumber: number;
+  pageLabel?: string;
+  endPageNumber?: number;
+  endPageLabel?: string;
+  section?: string;
+}): string {
+  const page = source.pageLabel || String(source.pageNumber);
+  const pages = source.endPageNumber && source.endPageNumber !== source.pageNumber
+    ? `pp. ${page}–${source.endPageLabel || source.endPageNumber}`
+    : null;
+  if (!source.section) {
+    return pages || `Page ${page}`;
+  }
+  const section = /^\d/.test(source.section) ? `§${source.section}` : source.section;
+  return `${section}, ${pages || `p. ${page}`}`;
+}
+
+// Format a bibliography entry for display, e.g. "Smith, J., Doe, B. (2020). Title. Venue."
+function formatReference(entry: BibliographyEntry): string {
+  if (!entry.title) {
+    return entry.text;
+  }
+  const authors = entry.authors.length > 0 ? entry.authors.join(', ') : '';
+  const year = entry.year ? ` (${entry.year})` : '';
+  const venue = entry.venue ? ` ${entry.venue}.` : '';
+  return `${authors}${year}. ${entry.title}.${venue}`.trim();
+}
+
 interface ChatWithPDFProps {
   selectedPDF: PDFDocument | null;
   onClose: () => void;
@@ -24,6 +58,8 @@ interface ChatWithPDFProps {
   selectedConversation: Conversation | null;
   onConversationUpdate: (conversation: Conversation) => void;
   ragService?: RAGService;
+  onJumpToReference?: (pdfId: string, entry: BibliographyEntry) => void;
+  onShowSource?: (source: NonNullable<ChatMessage['sources']>[number]) => void;
 }
 
 // ChatMessage interface is now imported from databaseService
@@ -36,7 +72,9 @@ const ChatWithPDF: React.FC<ChatWithPDFProps> = ({
   availablePDFs, 
   selectedConversation, 
   onConversationUpdate,
-  ragService: externalRagService
+  ragService: externalRagService,
+  onJumpToReference,
+  onShowSource
 }) => {
   const [isDarkMode, setIsDarkMode] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
@@ -50,6 +88,8 @@ const ChatWithPDF: React.FC<ChatWithPDFProps> = ({
   const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
   const [editText, setEditText] = useState('');
   const [expandedSources, setExpandedSources] = useState<Set<string>>(new Set());
+  const [expandedCitations, setExpandedCitations] = useState<Set<string>>(new Set());
+  const conversationUsageRef = useRef<UsageTotals>({}); // Ahead of selectedConversation until the save lands
   
   // TTS state
   const [ttsState, setTtsState] = useState<{
@@ -104,6 +144,7 @@ const ChatWithPDF: React.FC<ChatWithPDFProps> = ({
   useEffect(() => {
     if (selectedConversation) {
       setMessages(selectedConversation.messages);
+      conversationUsageRef.current = selectedConversation.usage || {};
       // If it's a new chat with no PDFs, default to the currently selected PDF
       if (selectedConversation.pdfIds.length === 0 && selectedPDF) {
         setSelectedPDFs([selectedPDF.id]);
@@ -123,6 +164,7 @@ const ChatWithPDF: React.FC<ChatWithPDFProps> = ({
     } else {
       setMessages([]);
       setSelectedPDFs([]);
+      conversationUsageRef.current = {};
     }
   }, [selectedConversation, selectedPDF]);
 
@@ -270,7 +312,8 @@ const ChatWithPDF: React.FC<ChatWithPDFProps> = ({
       }
       
       // Query the RAG system
-      const response = await ragService.query(query, selectedPDFs);
+      const response = await ragService.query(query, selectedPDFs, selectedConversation?.id);
+      const usage = addConversationUsage(response.metadata.usage);
       
       const assistantMessage: ChatMessage = {
         id: (Date.now() + 1).toString(),
@@ -278,6 +321,7 @@ const ChatWithPDF: React.FC<ChatWithPDFProps> = ({
         content: response.answer,
         timestamp: new Date(),
         sources: response.sources,
+        usage: response.metadata.usage,
       };
       
       setMessages(prev => {
@@ -288,6 +332,7 @@ const ChatWithPDF: React.FC<ChatWithPDFProps> = ({
             ...selectedConversation,
             messages: newMessages,
             pdfIds: selectedPDFs,
+            usage,
             updatedAt: new Date()
           };
           saveConversation(updatedConversation);
@@ -299,7 +344,9 @@ const ChatWithPDF: React.FC<ChatWithPDFProps> = ({
       const errorMessage: ChatMessage = {
         id: (Date.now() + 1).toString(),
         type: 'assistant',
-        content: "Sorry, I encountered an error while processing your question. Please try again.",
+        content: error instanceof BudgetExceededError
+          ? `${error.message}. Raise or remove the budget in Settings to keep asking questions.`
+          : "Sorry, I encountered an error while processing your question. Please try again.",
         timestamp: new Date(),
       };
       setMessages(prev => {
@@ -310,6 +357,7 @@ const ChatWithPDF: React.FC<ChatWithPDFProps> = ({
             ...selectedConversation,
             messages: newMessages,
             pdfIds: selectedPDFs,
+            usage: conversationUsageRef.current,
             updatedAt: new Date()
           };
           saveConversation(updatedConversation);
@@ -321,6 +369,12 @@ const ChatWithPDF: React.FC<ChatWithPDFProps> = ({
     }
   };
 
+  // Add a query's usage to the conversation's running total and return the new total
+  const addConversationUsage = (usage: UsageTotals): UsageTotals => {
+    conversationUsageRef.current = UsageMeter.add(conversationUsageRef.current, usage);
+    return conversationUsageRef.current;
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -374,7 +428,8 @@ const ChatWithPDF: React.FC<ChatWithPDFProps> = ({
       setError(null);
 
       try {
-        const response = await ragService.query(editText.trim(), selectedPDFs);
+        const response = await ragService.query(editText.trim(), selectedPDFs, selectedConversation?.id);
+        const usage = addConversationUsage(response.metadata.usage);
         
         const assistantMessage: ChatMessage = {
           id: (Date.now() + 1).toString(),
@@ -382,6 +437,7 @@ const ChatWithPDF: React.FC<ChatWithPDFProps> = ({
           content: response.answer,
           timestamp: new Date(),
           sources: response.sources,
+          usage: response.metadata.usage,
         };
 
         const finalMessages = [...messagesUpToEdit, assistantMessage];
@@ -392,13 +448,14 @@ const ChatWithPDF: React.FC<ChatWithPDFProps> = ({
           const updatedConversation = {
             ...selectedConversation,
             messages: finalMessages,
+            usage,
             updatedAt: new Date()
           };
           saveConversation(updatedConversation);
         }
       } catch (error) {
         console.error('Error getting AI response for edited message:', error);
-        setError(`Failed to get response: ${error}`);
+        setError(error instanceof BudgetExceededError ? error.message : `Failed to get response: ${error}`);
       } finally {
         setIsProcessing(false);
       }
@@ -422,6 +479,18 @@ const ChatWithPDF: React.FC<ChatWithPDFProps> = ({
     });
   };
 
+  const toggleCitation = (citationKey: string) => {
+    setExpandedCitations(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(citationKey)) {
+        newSet.delete(citationKey);
+      } else {
+        newSet.add(citationKey);
+      }
+      return newSet;
+    });
+  };
+
   const handlePDFToggle = useCallback((pdfId: string) => {
     setSelectedPDFs(prev => {
       const newSelectedPDFs = prev.includes(pdfId) 
@@ -698,8 +767,58 @@ const ChatWithPDF: React.FC<ChatWithPDFProps> = ({
                             {message.sources.map((source, index) => (
                               <div key={index} className="source-item">
                                 <span className="source-pdf">{source.pdfName}</span>
-                                <span className="source-page">Page {source.pageNumber}</span>
+                                <span className="source-page">{formatSourceLocation(source)}</span>
                                 <div className="source-text">{source.text.substring(0, 100)}...</div>
+                                {source.occurrences && source.occurrences.length > 0 && (
+                                  <div className="source-occurrences" title="The same passage appears in these places too">
+                                    Also in: {source.occurrences
+                                      .map(occurrence => `${occurrence.pdfName} p. ${occurrence.pageLabel || occurrence.pageNumber}`)
+                                      .join('; ')}
+                                  </div>
+                                )}
+                                {source.pdfId && onShowSource && (
+                                  <button className="source-jump" onClick={() => onShowSource(source)}>
+                                    Show on page
+                                  </button>
+                                )}
+                                {source.citations && source.citations.length > 0 && (
+                                  <div className="source-citations">
+                                    {source.citations.map((citation, citationIndex) => {
+                                      const citationKey = `${message.id}-${index}-${citationIndex}`;
+                                      return (
+                                        <div key={citationKey} className="source-citation">
+                                          <button
+                                            className="citation-marker"
+                                            onClick={() => toggleCitation(citationKey)}
+                                            title="Show the cited reference"
+                                          >
+                                            {citation.marker}
+                                          </button>
+                                          {expandedCitations.has(citationKey) && citation.references.map(entry => (
+                                            <div key={entry.key} className="citation-entry">
+                                              <div className="citation-text">{formatReference(entry)}</div>
+                                              <div className="citation-links">
+                                                {entry.doi && (
+                                                  <a href={`https://doi.org/${entry.doi}`} target="_blank" rel="noopener noreferrer">
+                                                    doi:{entry.doi}
+                                                  </a>
+                                                )}
+                                                {source.pdfId && onJumpToReference && (
+                                                  <button
+                                                    className="citation-jump"
+                                                    onClick={() => onJumpToReference(source.pdfId!, entry)}
+                                                  >
+                                                    Show in document
+                                                  </button>
+                                                )}
+                                              </div>
+                                            </div>
+                                          ))}
+                                        </div>
+                                      );
+                                    })}
+                                  </div>
+                                )}
                               </div>
                             ))}
                           </div>
@@ -714,6 +833,11 @@ const ChatWithPDF: React.FC<ChatWithPDFProps> = ({
                   {message.timestamp instanceof Date 
                     ? message.timestamp.toLocaleTimeString() 
                     : new Date(message.timestamp).toLocaleTimeString()}
+                  {message.usage && UsageMeter.tokens(message.usage) > 0 && (
+                    <span className="message-usage" title="Tokens spent on this answer and their estimated cost">
+                      {' · '}{UsageMeter.tokens(message.usage).toLocaleString()} tokens · {ModelPricing.format(ModelPricing.cost(message.usage))}
+                    </span>
+                  )}
                 </div>
                 <div className="message-actions">
                   {message.type === 'assistant' && (
@@ -0,0 +1,48 @@
+import React, { useState, useEffect } from 'react';
+import { RAGService, EmbeddingMigrationStatus } from '../services/ragService';
+
+interface EmbeddingMigrationIndicatorProps {
+  ragService: RAGService;
+}
+
+// Header progress of re-embedding the documents with a newly chosen model, with pause and resume
+export const EmbeddingMigrationIndicator: React.FC<EmbeddingMigrationIndicatorProps> = ({ ragService }) => {
+  const [status, setStatus] = useState<EmbeddingMigrationStatus | null>(ragService.getMigrationStatus());
+
+  useEffect(() => {
+    setStatus(ragService.getMigrationStatus());
+    return ragService.onMigrationChange(setStatus);
+  }, [ragService]);
+
+  if (!status || status.state === 'done') {
+    return null;
+  }
+
+  const percent = status.total > 0 ? Math.min(100, (status.completed / status.total) * 100) : 0;
+  const title = status.error
+    ? `Re-embedding with ${status.embeddingModel} stopped: ${status.error}`
+    : `Re-embedding documents with ${status.embeddingModel}; answers use the current index until it is done`;
+
+  return (
+    <div className={`embedding-migration ${status.state}`} title={title}>
+      <div className="ingest-progress">
+        <div className="ingest-progress-bar">
+          <div className="ingest-progress-fill" style={{ width: `${percent}%` }}></div>
+        </div>
+        <span className="ingest-progress-label">
+          {status.state === 'failed' ? 'Re-embedding failed' : status.state === 'paused' ? 'Re-embedding paused' : 'Re-embedding'}{' '}
+          {status.completed}/{status.total}
+        </span>
+      </div>
+      {status.state === 'running' ? (
+        <button onClick={() => ragService.pauseMigration()} title="Pause">
+          <i className="fas fa-pause"></i>
+        </button>
+      ) : (
+        <button onClick={() => ragService.resumeMigration()} title="Resume">
+          <i className="fas fa-play"></i>
+        </button>
+      )}
+    </div>
+  );
+};
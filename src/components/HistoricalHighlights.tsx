@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Annotation } from '../types';
 import { databaseService } from '../services/databaseService';
+import { ImportedAnnotation } from '../services/pdfAnnotationReader';
 
 interface HistoricalHighlightsProps {
   highlights: Annotation[];
@@ -8,6 +9,8 @@ interface HistoricalHighlightsProps {
   onDeleteHighlight: (id: string) => void;
   onLocateHighlight: (highlight: Annotation) => void;
   selectedPDF: { id: string } | null;
+  importableAnnotations?: ImportedAnnotation[]; // Highlights and notes stored in the PDF file itself
+  onImportAnnotations?: (annotations: ImportedAnnotation[]) => void;
 }
 
 export const HistoricalHighlights: React.FC<HistoricalHighlightsProps> = ({
@@ -16,6 +19,8 @@ export const HistoricalHighlights: React.FC<HistoricalHighlightsProps> = ({
   onDeleteHighlight,
   onLocateHighlight,
   selectedPDF,
+  importableAnnotations = [],
+  onImportAnnotations,
 }) => {
   const [editingComment, setEditingComment] = useState<string | null>(null);
   const [editComment, setEditComment] = useState('');
@@ -110,6 +115,21 @@ export const HistoricalHighlights: React.FC<HistoricalHighlightsProps> = ({
         <span className="highlight-count">{pdfHighlights.length}</span>
       </div>
 
+      {importableAnnotations.length > 0 && onImportAnnotations && (
+        <div className="annotation-import">
+          <span>
+            This PDF already contains {importableAnnotations.length} highlight{importableAnnotations.length === 1 ? '' : 's'} or note{importableAnnotations.length === 1 ? '' : 's'}
+          </span>
+          <button
+            className="annotation-import-btn"
+            onClick={() => onImportAnnotations(importableAnnotations)}
+            title="Add the PDF's own annotations to your highlights"
+          >
+            <i className="fas fa-file-import"></i> Import
+          </button>
+        </div>
+      )}
+
       {pdfHighlights.length === 0 ? (
         <div className="empty-state">
           <p>No highlights yet</p>
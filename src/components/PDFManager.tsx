@@ -1,6 +1,11 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { databaseService } from '../services/databaseService';
 import { RAGService } from '../services/ragService';
+import { DocumentExtractors } from '../services/documentExtractor';
+import { TextExtractor } from '../services/textExtractor';
+import { ChunkingStrategies, ChunkingStrategyName, ChunkingOptions } from '../services/chunkingStrategy';
+import { ReadingOrderMode } from '../services/readingOrder';
+import { IngestProgress, DocumentFormat } from '../types';
 
 interface PDFDocument {
   id: string;
@@ -8,8 +13,14 @@ interface PDFDocument {
   file: File;
   dataUrl: string;
   uploadDate: Date;
+  format: DocumentFormat;
+  isLocked?: boolean; // Encrypted PDF that needs a password to open
+  readingOrder?: ReadingOrderMode; // 'raw' keeps the PDF's content stream order instead of reconstructing columns
 }
 
+// Display name of an uploaded file: its name without the extension
+const documentName = (file: File): string => file.name.replace(/\.[^.]+$/, '');
+
 interface PDFManagerProps {
   onPDFSelect: (pdf: PDFDocument | null) => void;
   selectedPDF: PDFDocument | null;
@@ -23,7 +34,13 @@ export const PDFManager: React.FC<PDFManagerProps> = ({ onPDFSelect, selectedPDF
   const [showUploadModal, setShowUploadModal] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
-  const [processingPDFs, setProcessingPDFs] = useState<Set<string>>(new Set());
+  // Chunking strategy for the next upload; null lets each document pick one from its structure
+  const [chunkingStrategy, setChunkingStrategy] = useState<ChunkingStrategyName | null>(null);
+  // Reading order for the next upload; each PDF can be switched later from its list item
+  const [readingOrder, setReadingOrder] = useState<ReadingOrderMode>('layout');
+  // Latest ingest progress per PDF; null until the worker reports the first stage
+  const [processingPDFs, setProcessingPDFs] = useState<Map<string, IngestProgress | null>>(new Map());
+  const abortControllers = useRef<Map<string, AbortController>>(new Map());
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Load PDFs from database on mount
@@ -60,15 +77,49 @@ export const PDFManager: React.FC<PDFManagerProps> = ({ onPDFSelect, selectedPDF
     }
   }, [pdfs]); // Remove onPDFsUpdate from dependencies to prevent infinite loop
 
+  // Ingest a document in the background, showing its progress in the list until it is done or cancelled
+  const processDocument = useCallback((pdf: PDFDocument, chunking?: ChunkingOptions) => {
+    if (!ragService) {
+      return;
+    }
+    console.log(`🚀 Starting processing for PDF: ${pdf.name}`);
+    setProcessingPDFs(prev => new Map(prev).set(pdf.id, null));
+    const controller = new AbortController();
+    abortControllers.current.set(pdf.id, controller);
+    
+    ragService.processPDF(pdf, {
+      chunking,
+      signal: controller.signal,
+      onProgress: (progress) => {
+        setProcessingPDFs(prev => prev.has(pdf.id) ? new Map(prev).set(pdf.id, progress) : prev);
+      },
+    }).then(() => {
+      console.log(`✅ Completed processing for: ${pdf.name}`);
+    }).catch((error) => {
+      if (controller.signal.aborted) {
+        console.log(`🛑 Cancelled processing for: ${pdf.name}`);
+      } else {
+        console.error(`❌ Failed processing for: ${pdf.name}`, error);
+      }
+    }).finally(() => {
+      abortControllers.current.delete(pdf.id);
+      setProcessingPDFs(prev => {
+        const newMap = new Map(prev);
+        newMap.delete(pdf.id);
+        return newMap;
+      });
+    });
+  }, [ragService]);
+
   const handleFileUpload = async (files: FileList | null) => {
     if (!files) return;
 
     const validFiles = Array.from(files).filter(file => 
-      file.type === 'application/pdf' && file.size <= 50 * 1024 * 1024
+      DocumentExtractors.isSupported(file) && file.size <= 50 * 1024 * 1024
     );
 
     if (validFiles.length === 0) {
-      alert('Please select valid PDF files (max 50MB each)');
+      alert('Please select valid PDF, Word, EPUB, HTML, Markdown or text files (max 50MB each)');
       return;
     }
 
@@ -81,7 +132,7 @@ export const PDFManager: React.FC<PDFManagerProps> = ({ onPDFSelect, selectedPDF
     const newFiles: File[] = [];
 
     validFiles.forEach(file => {
-      const fileName = file.name.replace('.pdf', '').toLowerCase();
+      const fileName = documentName(file).toLowerCase();
       if (existingNames.includes(fileName)) {
         duplicates.push(file.name);
       } else {
@@ -123,12 +174,18 @@ export const PDFManager: React.FC<PDFManagerProps> = ({ onPDFSelect, selectedPDF
           reader.readAsDataURL(file);
         });
 
+        const format = DocumentExtractors.forFile(file)!.format;
+        const isLocked = format === 'pdf' && await TextExtractor.isPasswordProtected(file);
+        
         const newPDF: PDFDocument = {
           id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
-          name: file.name.replace('.pdf', ''),
+          name: documentName(file),
           file,
           dataUrl,
           uploadDate: new Date(),
+          format,
+          isLocked,
+          readingOrder: format === 'pdf' ? readingOrder : undefined,
         };
         
         // Save PDF to database
@@ -139,27 +196,7 @@ export const PDFManager: React.FC<PDFManagerProps> = ({ onPDFSelect, selectedPDF
           newPDFs.push(savedPDF);
           
           // Process PDF immediately after upload if RAG service is available
-          if (ragService) {
-            console.log(`🚀 Starting immediate processing for uploaded PDF: ${savedPDF.name}`);
-            setProcessingPDFs(prev => new Set(prev).add(savedPDF.id));
-            
-            // Process PDF in background
-            ragService.processPDF(savedPDF).then(() => {
-              console.log(`✅ Completed immediate processing for: ${savedPDF.name}`);
-              setProcessingPDFs(prev => {
-                const newSet = new Set(prev);
-                newSet.delete(savedPDF.id);
-                return newSet;
-              });
-            }).catch((error) => {
-              console.error(`❌ Failed immediate processing for: ${savedPDF.name}`, error);
-              setProcessingPDFs(prev => {
-                const newSet = new Set(prev);
-                newSet.delete(savedPDF.id);
-                return newSet;
-              });
-            });
-          }
+          processDocument(savedPDF, chunkingStrategy ? { strategy: chunkingStrategy } : undefined);
         } catch (error) {
           console.error('Error saving PDF to database:', error);
           // Still add to local state even if database save fails
@@ -184,6 +221,35 @@ export const PDFManager: React.FC<PDFManagerProps> = ({ onPDFSelect, selectedPDF
   }
 };
 
+  const handleCancelProcessing = useCallback((pdfId: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    abortControllers.current.get(pdfId)?.abort();
+  }, []);
+
+  // Switch a PDF between reconstructed and raw reading order, and process it again the new way
+  const handleToggleReadingOrder = useCallback(async (pdf: PDFDocument, e: React.MouseEvent) => {
+    e.stopPropagation();
+    const updatedPDF: PDFDocument = { ...pdf, readingOrder: pdf.readingOrder === 'raw' ? 'layout' : 'raw' };
+    
+    try {
+      await databaseService.setReadingOrder(pdf.id, updatedPDF.readingOrder!);
+    } catch (error) {
+      alert('Failed to change the reading order. Please try again.');
+      return;
+    }
+    setPdfs(prev => prev.map(existing => existing.id === pdf.id ? updatedPDF : existing));
+    if (selectedPDF?.id === pdf.id) {
+      onPDFSelect(updatedPDF);
+    }
+    
+    if (ragService?.isPDFProcessed(pdf.id)) {
+      // Keep the chunking the document was processed with
+      const chunking = ragService.getExtractedPDF(pdf.id)?.chunking;
+      ragService.removePDF(pdf.id);
+      processDocument(updatedPDF, chunking);
+    }
+  }, [ragService, selectedPDF, onPDFSelect, processDocument]);
+
   const handleUploadClick = () => {
     setShowUploadModal(true);
   };
@@ -196,7 +262,7 @@ export const PDFManager: React.FC<PDFManagerProps> = ({ onPDFSelect, selectedPDF
         fileInputRef.current.value = '';
       }
     } else {
-      alert('Please select at least one PDF file');
+      alert('Please select at least one file');
     }
   };
 
@@ -267,7 +333,10 @@ export const PDFManager: React.FC<PDFManagerProps> = ({ onPDFSelect, selectedPDF
                 isSelected={selectedPDF?.id === pdf.id}
                 onSelect={handlePDFSelect}
                 onRemove={handleRemovePDF}
+                onCancel={handleCancelProcessing}
+                onToggleReadingOrder={handleToggleReadingOrder}
                 isProcessing={processingPDFs.has(pdf.id)}
+                progress={processingPDFs.get(pdf.id) ?? null}
               />
             ))
           )}
@@ -280,7 +349,7 @@ export const PDFManager: React.FC<PDFManagerProps> = ({ onPDFSelect, selectedPDF
         <div className="modal-overlay" onClick={() => setShowUploadModal(false)}>
           <div className="modal-content" onClick={(e) => e.stopPropagation()}>
             <div className="modal-header">
-              <h3>Upload PDFs</h3>
+              <h3>Upload Documents</h3>
               <button 
                 className="close-btn"
                 onClick={() => setShowUploadModal(false)}
@@ -289,14 +358,36 @@ export const PDFManager: React.FC<PDFManagerProps> = ({ onPDFSelect, selectedPDF
               </button>
             </div>
             <div className="modal-body">
-              <p>Select one or more PDF files to upload (max 50MB each)</p>
+              <p>Select one or more PDF, Word (.docx), EPUB, HTML, Markdown or text files to upload (max 50MB each)</p>
               <input
                 ref={fileInputRef}
                 type="file"
-                accept="application/pdf"
+                accept={DocumentExtractors.acceptedTypes()}
                 multiple
                 className="file-input"
               />
+              <label className="chunking-select">
+                Chunking
+                <select
+                  value={chunkingStrategy || ''}
+                  onChange={(e) => setChunkingStrategy((e.target.value || null) as ChunkingStrategyName | null)}
+                >
+                  <option value="">Automatic</option>
+                  {ChunkingStrategies.list().map(strategy => (
+                    <option key={strategy.name} value={strategy.name}>{strategy.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="chunking-select">
+                Reading order
+                <select
+                  value={readingOrder}
+                  onChange={(e) => setReadingOrder(e.target.value as ReadingOrderMode)}
+                >
+                  <option value="layout">Reconstruct columns</option>
+                  <option value="raw">As stored in the PDF</option>
+                </select>
+              </label>
               <div className="modal-actions">
                 <button 
                   className="cancel-btn"
@@ -321,13 +412,29 @@ export const PDFManager: React.FC<PDFManagerProps> = ({ onPDFSelect, selectedPDF
   );
 };
 
+// Share of the overall progress bar given to each ingest stage
+const STAGE_WEIGHTS: Record<IngestProgress['stage'], { start: number; span: number; label: string }> = {
+  extracting: { start: 0, span: 50, label: 'Extracting text' },
+  chunking: { start: 50, span: 5, label: 'Chunking' },
+  embedding: { start: 55, span: 45, label: 'Embedding' },
+};
+
+const overallPercent = (progress: IngestProgress): number => {
+  const { start, span } = STAGE_WEIGHTS[progress.stage];
+  const fraction = progress.total > 0 ? progress.completed / progress.total : 0;
+  return Math.round(start + span * Math.min(fraction, 1));
+};
+
 // Memoized PDF list item component to prevent unnecessary re-renders
-const PDFListItem = React.memo(({ pdf, isSelected, onSelect, onRemove, isProcessing }: {
+const PDFListItem = React.memo(({ pdf, isSelected, onSelect, onRemove, onCancel, onToggleReadingOrder, isProcessing, progress }: {
   pdf: PDFDocument;
   isSelected: boolean;
   onSelect: (pdf: PDFDocument) => void;
   onRemove: (pdfId: string, e: React.MouseEvent) => void;
+  onCancel: (pdfId: string, e: React.MouseEvent) => void;
+  onToggleReadingOrder: (pdf: PDFDocument, e: React.MouseEvent) => void;
   isProcessing: boolean;
+  progress: IngestProgress | null;
 }) => (
   <div 
     className={`pdf-item ${isSelected ? 'selected' : ''} ${isProcessing ? 'processing' : ''}`}
@@ -335,21 +442,55 @@ const PDFListItem = React.memo(({ pdf, isSelected, onSelect, onRemove, isProcess
   >
     <div className="pdf-info">
       <span className="pdf-name">
+        {pdf.isLocked && <span className="pdf-lock" title="Password protected">🔒</span>}
         {pdf.name}
-        {isProcessing && <span className="processing-indicator">⏳ Processing...</span>}
+        {pdf.format !== 'pdf' && <span className="document-format">{pdf.format.toUpperCase()}</span>}
+        {isProcessing && !progress && <span className="processing-indicator">⏳ Processing...</span>}
       </span>
+      {isProcessing && progress && (
+        <div className="ingest-progress">
+          <div className="ingest-progress-bar">
+            <div className="ingest-progress-fill" style={{ width: `${overallPercent(progress)}%` }}></div>
+          </div>
+          <span className="ingest-progress-label">
+            {STAGE_WEIGHTS[progress.stage].label} {progress.completed}/{progress.total}
+          </span>
+        </div>
+      )}
       <span className="pdf-date">
         {pdf.uploadDate.toLocaleDateString()}
       </span>
     </div>
-    <button 
-      className="remove-btn"
-      onClick={(e) => onRemove(pdf.id, e)}
-      title="Remove PDF"
-      disabled={isProcessing}
-    >
-      <i className="fas fa-times" style={{color: isProcessing ? '#ccc' : '#dc3545'}}></i>
-    </button>
+    {isProcessing ? (
+      <button 
+        className="remove-btn cancel-processing-btn"
+        onClick={(e) => onCancel(pdf.id, e)}
+        title="Cancel processing"
+      >
+        <i className="fas fa-stop-circle" style={{color: '#dc3545'}}></i>
+      </button>
+    ) : (
+      <>
+        {pdf.format === 'pdf' && (
+          <button 
+            className="remove-btn reading-order-btn"
+            onClick={(e) => onToggleReadingOrder(pdf, e)}
+            title={pdf.readingOrder === 'raw'
+              ? 'Reading order as stored in the PDF; click to reconstruct columns'
+              : 'Reading order reconstructed from the layout; click to use the order stored in the PDF'}
+          >
+            <i className={`fas ${pdf.readingOrder === 'raw' ? 'fa-stream' : 'fa-columns'}`}></i>
+          </button>
+        )}
+        <button 
+          className="remove-btn"
+          onClick={(e) => onRemove(pdf.id, e)}
+          title="Remove PDF"
+        >
+          <i className="fas fa-times" style={{color: '#dc3545'}}></i>
+        </button>
+      </>
+    )}
   </div>
 ));
 
@@ -0,0 +1,92 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { PasswordStore, PasswordRequest } from '../services/passwordStore';
+
+interface PendingPrompt {
+  request: PasswordRequest;
+  resolve: (password: string | null) => void;
+}
+
+// Modal that asks for the password of an encrypted PDF whenever processing needs one
+export const PasswordPrompt: React.FC = () => {
+  const [queue, setQueue] = useState<PendingPrompt[]>([]);
+  const [password, setPassword] = useState('');
+  const pendingRef = useRef<PendingPrompt[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    PasswordStore.setPromptHandler(request => new Promise(resolve => {
+      pendingRef.current = [...pendingRef.current, { request, resolve }];
+      setQueue(pendingRef.current);
+    }));
+
+    return () => {
+      PasswordStore.setPromptHandler(null);
+      // Nobody is left to answer prompts that are still open
+      pendingRef.current.forEach(prompt => prompt.resolve(null));
+      pendingRef.current = [];
+    };
+  }, []);
+
+  const current = queue[0];
+
+  useEffect(() => {
+    setPassword('');
+    inputRef.current?.focus();
+  }, [current]);
+
+  if (!current) {
+    return null;
+  }
+
+  const answer = (value: string | null) => {
+    current.resolve(value);
+    pendingRef.current = pendingRef.current.slice(1);
+    setQueue(pendingRef.current);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password) {
+      answer(password);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={() => answer(null)}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>🔒 Password Required</h3>
+          <button className="close-btn" onClick={() => answer(null)}>
+            <i className="fas fa-times" style={{color: '#dc3545'}}></i>
+          </button>
+        </div>
+        <form className="modal-body" onSubmit={handleSubmit}>
+          <p>
+            "{current.request.pdfName}" is password protected. Enter its password to read it.
+            The password is kept only until you log out or close the page.
+          </p>
+          {current.request.reason === 'incorrect' && (
+            <div className="password-error">Incorrect password, please try again.</div>
+          )}
+          <input
+            ref={inputRef}
+            type="password"
+            className="password-input"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="PDF password"
+            autoComplete="off"
+          />
+          <div className="modal-actions">
+            <button type="button" className="cancel-btn" onClick={() => answer(null)}>
+              Skip
+            </button>
+            <button type="submit" className="upload-btn-modal" disabled={!password}>
+              Unlock
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -1,13 +1,23 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { ReactPDFViewer } from './ReactPDFViewer';
 import { PDFManager, PDFDocument } from './PDFManager';
 import { HistoricalHighlights } from './HistoricalHighlights';
 import ChatWithPDF from './ChatWithPDF';
 import { ChatList } from './ChatList';
 import { Auth } from './Auth';
+import { PasswordPrompt } from './PasswordPrompt';
+import { WorkspaceSettingsModal } from './WorkspaceSettingsModal';
+import { UsagePanel } from './UsagePanel';
+import { EmbeddingMigrationIndicator } from './EmbeddingMigrationIndicator';
 import { Annotation } from '../types';
-import { databaseService, Conversation } from '../services/databaseService';
+import { databaseService, Conversation, ChatMessage } from '../services/databaseService';
 import { RAGService } from '../services/ragService';
+import { PasswordStore } from '../services/passwordStore';
+import { WorkspaceSettings, WorkspaceSettingsData } from '../services/workspaceSettings';
+import { UsageLedger } from '../services/usageLedger';
+import { BibliographyEntry } from '../services/bibliographyParser';
+import { ImportedAnnotation } from '../services/pdfAnnotationReader';
+import { HighlightArea } from '../services/sourceLocator';
 import { v4 as uuidv4 } from 'uuid';
 
 export const ReactApp: React.FC = () => {
@@ -25,6 +35,16 @@ export const ReactApp: React.FC = () => {
   const [showUserDropdown, setShowUserDropdown] = useState(false);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
   const [ragService, setRagService] = useState<RAGService | undefined>(undefined);
+  const [workspaceSettings, setWorkspaceSettings] = useState<WorkspaceSettingsData | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [usageLedger, setUsageLedger] = useState<UsageLedger | null>(null);
+  const [showUsage, setShowUsage] = useState(false);
+  // Bumped whenever a PDF finishes processing, so results derived from its extraction are recomputed
+  const [processedVersion, setProcessedVersion] = useState(0);
+  // Chat source drawn on its pages until another source is shown
+  const [shownSource, setShownSource] = useState<{ pdfId: string; areas: HighlightArea[] } | null>(null);
+  // Area to scroll to once the viewer has loaded a newly selected PDF
+  const pendingJumpRef = useRef<{ pageIndex: number; left: number; top: number; width: number; height: number } | null>(null);
 
   const showSaveFeedback = async (saveOperation: () => Promise<void>) => {
     setSaveStatus('saving');
@@ -90,6 +110,32 @@ export const ReactApp: React.FC = () => {
     }
   };
 
+  // Annotations stored in the selected PDF that have not been imported as highlights yet
+  const importableAnnotations = useMemo(() => {
+    if (!selectedPDF || !ragService) {
+      return [];
+    }
+    const imported = (annotation: ImportedAnnotation) => highlights.some(highlight =>
+      highlight.pdfId === selectedPDF.id &&
+      highlight.pageNumber === annotation.pageNumber &&
+      highlight.content === annotation.content &&
+      Math.abs(highlight.position.x - annotation.position.x) < 0.1 &&
+      Math.abs(highlight.position.y - annotation.position.y) < 0.1
+    );
+    return (ragService.getExtractedPDF(selectedPDF.id)?.annotations || []).filter(annotation => !imported(annotation));
+  }, [selectedPDF, ragService, highlights, processedVersion]);
+
+  useEffect(() => ragService?.onPDFProcessed(() => setProcessedVersion(version => version + 1)), [ragService]);
+
+  const handleImportAnnotations = async (annotations: ImportedAnnotation[]) => {
+    if (!selectedPDF) {
+      return;
+    }
+    for (const annotation of annotations) {
+      await handleAddHighlight({ ...annotation, pdfId: selectedPDF.id });
+    }
+  };
+
   const handleUpdateHighlight = async (id: string, updates: Partial<Annotation>) => {
     setHighlights(prev => 
       prev.map(highlight => 
@@ -138,6 +184,63 @@ export const ReactApp: React.FC = () => {
   };
 
 
+  const handleJumpToReference = (pdfId: string, entry: BibliographyEntry) => {
+    const pdf = [...pdfs, ...availablePDFs].find(candidate => candidate.id === pdfId);
+    if (!pdf) {
+      return;
+    }
+    if (pdf.format !== 'pdf') {
+      // Other formats have no page view to scroll
+      alert(`${entry.label} is listed on page ${entry.pageLabel || entry.pageNumber} of ${pdf.name}:\n\n${entry.text}`);
+      return;
+    }
+    
+    const area = {
+      pageIndex: entry.pageNumber - 1,
+      left: entry.area?.left ?? 0,
+      top: entry.area?.top ?? 0,
+      width: entry.area?.width ?? 100,
+      height: entry.area?.height ?? 0,
+    };
+    
+    if (selectedPDF?.id === pdfId) {
+      highlightPlugin?.jumpToHighlightArea?.(area);
+    } else {
+      pendingJumpRef.current = area;
+      handlePDFSelect(pdf);
+    }
+  };
+
+  const handleShowSource = (source: NonNullable<ChatMessage['sources']>[number]) => {
+    const pdf = [...pdfs, ...availablePDFs].find(candidate => candidate.id === source.pdfId);
+    if (!pdf) {
+      return;
+    }
+    if (pdf.format !== 'pdf') {
+      alert(`This passage is on page ${source.pageLabel || source.pageNumber} of ${pdf.name}:\n\n${source.text}`);
+      return;
+    }
+    
+    // Sources found before their positions were recorded can still be opened at their page
+    const areas = source.areas || [];
+    setShownSource({ pdfId: pdf.id, areas });
+    const area = areas[0] || { pageIndex: source.pageNumber - 1, left: 0, top: 0, width: 100, height: 0 };
+    
+    if (selectedPDF?.id === pdf.id) {
+      highlightPlugin?.jumpToHighlightArea?.(area);
+    } else {
+      pendingJumpRef.current = area;
+      handlePDFSelect(pdf);
+    }
+  };
+
+  const handleDocumentLoad = () => {
+    if (pendingJumpRef.current) {
+      highlightPlugin?.jumpToHighlightArea?.(pendingJumpRef.current);
+      pendingJumpRef.current = null;
+    }
+  };
+
   const handleCloseChat = () => {
     setShowChat(false);
     setSelectedChat(null);
@@ -171,18 +274,17 @@ export const ReactApp: React.FC = () => {
     setAvailablePDFs(updatedPdfs);
   };
 
-  const handleLogin = async (username: string) => {
-    setCurrentUser(username);
-    setIsAuthenticated(true);
-    
-    // Initialize RAG service
+  const initializeRAGService = (settings: WorkspaceSettingsData, ledger: UsageLedger) => {
     try {
       const openaiApiKey = import.meta.env.VITE_OPENAI_API_KEY;
       if (openaiApiKey) {
         const ragService = new RAGService({
           openaiApiKey,
           maxChunks: 10,
-          temperature: 0.7
+          temperature: 0.7,
+          embedding: settings.embedding,
+          usageLedger: ledger,
+          monthlyBudgetUsd: settings.monthlyBudgetUsd
         });
         setRagService(ragService);
         console.log('RAG service initialized successfully');
@@ -192,6 +294,18 @@ export const ReactApp: React.FC = () => {
     } catch (error) {
       console.error('Error initializing RAG service:', error);
     }
+  };
+
+  const handleLogin = async (username: string) => {
+    setCurrentUser(username);
+    setIsAuthenticated(true);
+    
+    // Each account is its own workspace, with its own embedding provider, usage and budget
+    const settings = WorkspaceSettings.load(username);
+    const ledger = new UsageLedger(username);
+    setWorkspaceSettings(settings);
+    setUsageLedger(ledger);
+    initializeRAGService(settings, ledger);
     
     // Load user data from database
     try {
@@ -202,11 +316,32 @@ export const ReactApp: React.FC = () => {
     }
   };
 
+  const handleSaveSettings = (settings: WorkspaceSettingsData) => {
+    if (currentUser) {
+      WorkspaceSettings.save(currentUser, settings);
+    }
+    setWorkspaceSettings(settings);
+    setShowSettings(false);
+    if (ragService) {
+      ragService.setMonthlyBudget(settings.monthlyBudgetUsd);
+      // A new model re-embeds the documents in the background; answers come from the current index meanwhile
+      ragService.changeEmbedding(settings.embedding);
+    } else if (usageLedger) {
+      initializeRAGService(settings, usageLedger);
+    }
+  };
+
   const handleLogout = () => {
     // Logout from database service
     databaseService.logout();
+    // PDF passwords must not outlive the session
+    PasswordStore.clear();
     
     setCurrentUser(null);
+    setWorkspaceSettings(null);
+    setShowSettings(false);
+    setUsageLedger(null);
+    setShowUsage(false);
     setIsAuthenticated(false);
     // Clear all user data
     setSelectedPDF(null);
@@ -252,6 +387,7 @@ export const ReactApp: React.FC = () => {
           </div>
         </div>
         <div className="header-right">
+          {ragService && <EmbeddingMigrationIndicator ragService={ragService} />}
           <div className="status">
             {saveStatus === 'saving' && (
               <div className="spinner"></div>
@@ -277,6 +413,26 @@ export const ReactApp: React.FC = () => {
                   <span>{currentUser}</span>
                 </div>
                 <hr />
+                <button 
+                  className="settings-option"
+                  onClick={() => {
+                    setShowSettings(true);
+                    setShowUserDropdown(false);
+                  }}
+                >
+                  <i className="fas fa-cog"></i>
+                  <span>Settings</span>
+                </button>
+                <button 
+                  className="settings-option"
+                  onClick={() => {
+                    setShowUsage(true);
+                    setShowUserDropdown(false);
+                  }}
+                >
+                  <i className="fas fa-chart-bar"></i>
+                  <span>Usage</span>
+                </button>
                 <button 
                   className="logout-option"
                   onClick={handleLogout}
@@ -302,6 +458,8 @@ export const ReactApp: React.FC = () => {
                 onAddHighlight={handleAddHighlight}
                 onHighlightPluginReady={setHighlightPlugin}
                 allHighlights={highlights}
+                sourceAreas={shownSource && shownSource.pdfId === selectedPDF?.id ? shownSource.areas : undefined}
+                onDocumentLoad={handleDocumentLoad}
               />
             </section>
 
@@ -331,6 +489,8 @@ export const ReactApp: React.FC = () => {
                     onDeleteHighlight={handleDeleteHighlight}
                     onLocateHighlight={handleLocateHighlight}
                     selectedPDF={selectedPDF}
+                    importableAnnotations={importableAnnotations}
+                    onImportAnnotations={handleImportAnnotations}
                   />
                 </div>
               </aside>
@@ -347,9 +507,27 @@ export const ReactApp: React.FC = () => {
                 selectedConversation={selectedChat}
                 onConversationUpdate={handleChatUpdate}
                 ragService={ragService}
+                onJumpToReference={handleJumpToReference}
+                onShowSource={handleShowSource}
               />
             )}
       </main>
+
+      <PasswordPrompt />
+      {showSettings && workspaceSettings && (
+        <WorkspaceSettingsModal
+          settings={workspaceSettings}
+          onSave={handleSaveSettings}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+      {showUsage && usageLedger && (
+        <UsagePanel
+          ledger={usageLedger}
+          monthlyBudgetUsd={workspaceSettings?.monthlyBudgetUsd}
+          onClose={() => setShowUsage(false)}
+        />
+      )}
     </div>
   );
 };
@@ -1,11 +1,12 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Viewer, Worker } from '@react-pdf-viewer/core';
+import { Viewer, Worker, PasswordStatus, RenderProtectedViewProps } from '@react-pdf-viewer/core';
 import { defaultLayoutPlugin } from '@react-pdf-viewer/default-layout';
 import { searchPlugin } from '@react-pdf-viewer/search';
 import { highlightPlugin, RenderHighlightTargetProps, RenderHighlightsProps, HighlightArea } from '@react-pdf-viewer/highlight';
 import { PDFDocument } from './PDFManager';
 // import { HighlightingToolbar } from './HighlightingToolbar';
 import { Annotation } from '../types';
+import { PasswordStore } from '../services/passwordStore';
 
 // Import styles
 import '@react-pdf-viewer/core/lib/styles/index.css';
@@ -18,17 +19,23 @@ interface ReactPDFViewerProps {
   onAddHighlight: (highlight: Omit<Annotation, 'id' | 'createdAt'>) => void;
   onHighlightPluginReady?: (plugin: any) => void;
   allHighlights?: Annotation[];
+  sourceAreas?: HighlightArea[]; // A chat source to outline on the page
+  onDocumentLoad?: () => void;
 }
 
 export const ReactPDFViewer: React.FC<ReactPDFViewerProps> = ({ 
   selectedPDF, 
   onAddHighlight,
   onHighlightPluginReady,
-  allHighlights = []
+  allHighlights = [],
+  sourceAreas = [],
+  onDocumentLoad
 }) => {
   const [pdfFile, setPdfFile] = useState<string | null>(null);
   const [highlights, setHighlights] = useState<Array<{id: string, areas: HighlightArea[], text: string, color: string}>>([]);
   const viewerRef = useRef<HTMLDivElement>(null);
+  // Password last tried for an encrypted PDF; remembered for the session once the document opens
+  const attemptedPasswordRef = useRef<string | null>(null);
   
   // Create search plugin (we'll use it for search functionality, not user highlighting)
   const searchPluginInstance = searchPlugin();
@@ -161,6 +168,15 @@ export const ReactPDFViewer: React.FC<ReactPDFViewerProps> = ({
               ))}
           </React.Fragment>
         ))}
+        {sourceAreas
+          .filter((area) => area.pageIndex === props.pageIndex)
+          .map((area, idx) => (
+            <div
+              key={`source-${idx}`}
+              className="source-highlight"
+              style={props.getCssProperties(area, props.rotation)}
+            />
+          ))}
       </div>
     ),
   });
@@ -175,6 +191,7 @@ export const ReactPDFViewer: React.FC<ReactPDFViewerProps> = ({
 
   // Update PDF file when selectedPDF changes
   useEffect(() => {
+    attemptedPasswordRef.current = null;
     if (selectedPDF) {
       setPdfFile(selectedPDF.dataUrl);
     } else {
@@ -241,14 +258,96 @@ export const ReactPDFViewer: React.FC<ReactPDFViewerProps> = ({
     );
   }
 
+  // Word, EPUB, HTML, Markdown and text documents are searchable in chat but have no page rendering
+  if (selectedPDF && selectedPDF.format !== 'pdf') {
+    return (
+      <div className="upload-area">
+        <div className="upload-icon">📝</div>
+        <h3>Preview not available</h3>
+        <p>{selectedPDF.name} is a {selectedPDF.format.toUpperCase()} document and cannot be displayed here</p>
+        <div className="upload-hint">
+          <small>You can still ask questions about it in the chat</small>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="react-pdf-viewer-container" style={{ height: '100%', width: '100%' }} ref={viewerRef}>
       <Worker workerUrl="https://unpkg.com/pdfjs-dist@3.11.174/build/pdf.worker.min.js">
         <Viewer
           fileUrl={pdfFile}
           plugins={[defaultLayoutPluginInstance, searchPluginInstance, highlightPluginInstance]}
+          renderProtectedView={(props) => (
+            <ProtectedView
+              {...props}
+              pdfId={selectedPDF!.id}
+              pdfName={selectedPDF!.name}
+              onAttempt={(password) => { attemptedPasswordRef.current = password; }}
+            />
+          )}
+          onDocumentLoad={() => {
+            if (selectedPDF && attemptedPasswordRef.current) {
+              PasswordStore.set(selectedPDF.id, attemptedPasswordRef.current);
+            }
+            onDocumentLoad?.();
+          }}
         />
       </Worker>
     </div>
   );
 };
+
+// Password form shown by the viewer for encrypted PDFs; a password entered earlier in the session is tried first
+const ProtectedView: React.FC<RenderProtectedViewProps & {
+  pdfId: string;
+  pdfName: string;
+  onAttempt: (password: string) => void;
+}> = ({ passwordStatus, verifyPassword, pdfId, pdfName, onAttempt }) => {
+  const [password, setPassword] = useState('');
+  const triedStoredRef = useRef(false);
+  const storedPassword = PasswordStore.get(pdfId);
+
+  useEffect(() => {
+    if (passwordStatus === PasswordStatus.RequiredPassword && storedPassword && !triedStoredRef.current) {
+      triedStoredRef.current = true;
+      onAttempt(storedPassword);
+      verifyPassword(storedPassword);
+    } else if (passwordStatus === PasswordStatus.WrongPassword && storedPassword && triedStoredRef.current) {
+      PasswordStore.forget(pdfId);
+    }
+  }, [passwordStatus]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password) {
+      onAttempt(password);
+      verifyPassword(password);
+    }
+  };
+
+  return (
+    <div className="protected-view">
+      <form onSubmit={handleSubmit}>
+        <h3>🔒 {pdfName} is password protected</h3>
+        {passwordStatus === PasswordStatus.WrongPassword && (
+          <div className="password-error">Incorrect password, please try again.</div>
+        )}
+        <input
+          type="password"
+          className="password-input"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="PDF password"
+          autoComplete="off"
+          autoFocus
+        />
+        <div className="modal-actions">
+          <button type="submit" className="upload-btn-modal" disabled={!password}>
+            Unlock
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
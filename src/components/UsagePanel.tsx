@@ -0,0 +1,153 @@
+import React, { useState, useEffect } from 'react';
+import { UsageLedger } from '../services/usageLedger';
+import { UsageMeter, UsageTotals } from '../services/usageMeter';
+import { ModelPricing } from '../services/modelPricing';
+import { databaseService, Conversation } from '../services/databaseService';
+
+interface UsagePanelProps {
+  ledger: UsageLedger;
+  monthlyBudgetUsd?: number;
+  onClose: () => void;
+}
+
+// Tokens and estimated cost of a usage total, e.g. "12,345 tokens · $0.0025"
+function formatUsage(usage: UsageTotals): string {
+  return `${UsageMeter.tokens(usage).toLocaleString()} tokens · ${ModelPricing.format(ModelPricing.cost(usage))}`;
+}
+
+// Modal with the workspace's token usage: this month by model against the budget, per document, per conversation
+// and the latest activity
+export const UsagePanel: React.FC<UsagePanelProps> = ({ ledger, monthlyBudgetUsd, onClose }) => {
+  const [version, setVersion] = useState(0);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+
+  // Redraw as queries and ingests finish while the panel is open
+  useEffect(() => ledger.subscribe(() => setVersion(v => v + 1)), [ledger]);
+
+  useEffect(() => {
+    databaseService.getConversations()
+      .then(loaded => setConversations(loaded.filter(conversation => UsageMeter.tokens(conversation.usage) > 0)))
+      .catch(error => {
+        console.error('Error loading conversation usage:', error);
+      });
+  }, [version]);
+
+  const monthUsage = ledger.monthUsage();
+  const monthCost = ModelPricing.cost(monthUsage);
+  const models = Object.entries(monthUsage).sort(([, a], [, b]) => b.promptTokens + b.completionTokens - a.promptTokens - a.completionTokens);
+  const documents = ledger.documents().sort((a, b) => ModelPricing.cost(b.usage) - ModelPricing.cost(a.usage));
+  const recent = ledger.recent().slice(0, 20);
+  const budgetShare = monthlyBudgetUsd ? Math.min(1, monthCost / monthlyBudgetUsd) : 0;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content usage-panel" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>Usage</h3>
+          <button className="close-btn" onClick={onClose}>
+            <i className="fas fa-times" style={{color: '#dc3545'}}></i>
+          </button>
+        </div>
+        <div className="modal-body">
+          <h4>This month</h4>
+          {models.length === 0 ? (
+            <p>No paid calls yet this month.</p>
+          ) : (
+            <table className="usage-table">
+              <thead>
+                <tr>
+                  <th>Model</th>
+                  <th>Prompt</th>
+                  <th>Completion</th>
+                  <th>Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {models.map(([model, usage]) => (
+                  <tr key={model}>
+                    <td>{model}</td>
+                    <td>{usage.promptTokens.toLocaleString()}</td>
+                    <td>{usage.completionTokens.toLocaleString()}</td>
+                    <td>{ModelPricing.priceOf(model) ? ModelPricing.format(ModelPricing.costOf(model, usage)) : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr>
+                  <td>Total</td>
+                  <td>{models.reduce((sum, [, usage]) => sum + usage.promptTokens, 0).toLocaleString()}</td>
+                  <td>{models.reduce((sum, [, usage]) => sum + usage.completionTokens, 0).toLocaleString()}</td>
+                  <td>{ModelPricing.format(monthCost)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          )}
+
+          {monthlyBudgetUsd !== undefined && (
+            <div className="usage-budget">
+              <div className="usage-budget-bar">
+                <div
+                  className={`usage-budget-fill ${budgetShare >= 1 ? 'exceeded' : ''}`}
+                  style={{ width: `${budgetShare * 100}%` }}
+                />
+              </div>
+              <span>
+                {ModelPricing.format(monthCost)} of {ModelPricing.format(monthlyBudgetUsd)} budget
+                {budgetShare >= 1 && ' — paid calls are blocked until next month'}
+              </span>
+            </div>
+          )}
+
+          {documents.length > 0 && (
+            <>
+              <h4>Documents</h4>
+              <ul className="usage-list">
+                {documents.map(document => (
+                  <li key={document.pdfId}>
+                    <span>{document.name}</span>
+                    <span>{formatUsage(document.usage)}</span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+
+          {conversations.length > 0 && (
+            <>
+              <h4>Conversations</h4>
+              <ul className="usage-list">
+                {conversations.map(conversation => (
+                  <li key={conversation.id}>
+                    <span>{conversation.name}</span>
+                    <span>{formatUsage(conversation.usage || {})}</span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+
+          {recent.length > 0 && (
+            <>
+              <h4>Recent activity</h4>
+              <ul className="usage-list">
+                {recent.map(activity => (
+                  <li key={`${activity.at}-${activity.label}`}>
+                    <span title={activity.label}>
+                      <i className={`fas ${activity.kind === 'ingest' ? 'fa-file-pdf' : 'fa-comment'}`}></i>{' '}
+                      {activity.label}
+                    </span>
+                    <span>{formatUsage(activity.usage)}</span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+
+          <p className="workspace-settings-note">
+            Costs are estimates from published per-token prices; local models are free.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useState, useEffect } from 'react';
+import { EmbeddingProviderKind, EmbeddingProviders } from '../services/embeddingProvider';
+import { WorkspaceSettingsData } from '../services/workspaceSettings';
+import { EmbeddingCache, EmbeddingCacheStats } from '../services/embeddingCache';
+
+interface WorkspaceSettingsModalProps {
+  settings: WorkspaceSettingsData;
+  onSave: (settings: WorkspaceSettingsData) => void;
+  onClose: () => void;
+}
+
+// Where the base URL field applies, and what it means there
+const BASE_URL_PLACEHOLDERS: Partial<Record<EmbeddingProviderKind, string>> = {
+  'openai-compatible': 'http://localhost:11434/v1',
+  wasm: 'https://huggingface.co/',
+};
+
+// Modal for the settings of the current workspace: which embedding provider and model documents are indexed with,
+// and how much paid calls may cost each month
+export const WorkspaceSettingsModal: React.FC<WorkspaceSettingsModalProps> = ({ settings, onSave, onClose }) => {
+  const [kind, setKind] = useState<EmbeddingProviderKind>(settings.embedding.kind);
+  const [model, setModel] = useState(settings.embedding.model || '');
+  const [baseUrl, setBaseUrl] = useState(settings.embedding.baseUrl || '');
+  const [budget, setBudget] = useState(settings.monthlyBudgetUsd?.toString() || '');
+  const [cacheStats, setCacheStats] = useState<EmbeddingCacheStats | null>(null);
+
+  useEffect(() => {
+    EmbeddingCache.getStats().then(setCacheStats).catch(error => {
+      console.warn('Could not read embedding cache statistics:', error);
+    });
+  }, []);
+
+  const providerType = EmbeddingProviders.get(kind);
+  const baseUrlPlaceholder = BASE_URL_PLACEHOLDERS[kind];
+  const missingBaseUrl = kind === 'openai-compatible' && !baseUrl.trim();
+  const budgetUsd = budget.trim() ? Number(budget) : undefined;
+  const invalidBudget = budgetUsd !== undefined && !(budgetUsd >= 0);
+
+  const handleKindChange = (value: EmbeddingProviderKind) => {
+    // A model name only makes sense for the provider it was typed for
+    setKind(value);
+    setModel('');
+    setBaseUrl('');
+  };
+
+  const handleClearCache = async () => {
+    await EmbeddingCache.clear();
+    setCacheStats(await EmbeddingCache.getStats());
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (missingBaseUrl || invalidBudget) {
+      return;
+    }
+    onSave({
+      ...settings,
+      embedding: {
+        kind,
+        model: model.trim() || undefined,
+        baseUrl: baseUrlPlaceholder && baseUrl.trim() ? baseUrl.trim() : undefined,
+      },
+      monthlyBudgetUsd: budgetUsd,
+    });
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>Workspace Settings</h3>
+          <button className="close-btn" onClick={onClose}>
+            <i className="fas fa-times" style={{color: '#dc3545'}}></i>
+          </button>
+        </div>
+        <form className="modal-body workspace-settings" onSubmit={handleSubmit}>
+          <label>
+            Embedding provider
+            <select value={kind} onChange={(e) => handleKindChange(e.target.value as EmbeddingProviderKind)}>
+              {EmbeddingProviders.list().map(type => (
+                <option key={type.kind} value={type.kind}>{type.label}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Model
+            <input
+              type="text"
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              placeholder={providerType?.defaultModel}
+            />
+          </label>
+          {baseUrlPlaceholder && (
+            <label>
+              {kind === 'wasm' ? 'Model host' : 'Server URL'}
+              <input
+                type="url"
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                placeholder={baseUrlPlaceholder}
+              />
+            </label>
+          )}
+          <p className="workspace-settings-note">
+            Changing the model embeds processed documents again in the background; answers use the current index until that is done.
+          </p>
+          {cacheStats && (
+            <div className="embedding-cache-stats">
+              <span>
+                Embedding cache: {cacheStats.entries.toLocaleString()} embeddings,{' '}
+                {(cacheStats.bytes / (1024 * 1024)).toFixed(1)} of {Math.round(cacheStats.maxBytes / (1024 * 1024))} MB,{' '}
+                {Math.round(cacheStats.hitRate * 100)}% hits ({cacheStats.hits.toLocaleString()} of {(cacheStats.hits + cacheStats.misses).toLocaleString()})
+              </span>
+              <button type="button" className="cancel-btn" onClick={handleClearCache} disabled={cacheStats.entries === 0}>
+                Clear
+              </button>
+            </div>
+          )}
+          <label>
+            Monthly budget (USD)
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={budget}
+              onChange={(e) => setBudget(e.target.value)}
+              placeholder="No limit"
+            />
+          </label>
+          <p className="workspace-settings-note">
+            Questions and document processing that call paid models stop once this month's estimated cost reaches the budget.
+          </p>
+          <div className="modal-actions">
+            <button type="button" className="cancel-btn" onClick={onClose}>
+              Cancel
+            </button>
+            <button type="submit" className="upload-btn-modal" disabled={missingBaseUrl || invalidBudget}>
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
+import type { ReadingOrderMode } from '../services/readingOrder';
+import type { UsageTotals } from '../services/usageMeter';
 
 // These will be set via environment variables
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || 'your-supabase-url';
@@ -40,6 +42,8 @@ export interface Database {
           name: string;
           size: number;
           url: string;
+          is_locked: boolean;
+          reading_order: ReadingOrderMode;
           upload_date: string;
           created_at: string;
           updated_at: string;
@@ -50,6 +54,8 @@ export interface Database {
           name: string;
           size: number;
           url: string;
+          is_locked?: boolean;
+          reading_order?: ReadingOrderMode;
           upload_date?: string;
           created_at?: string;
           updated_at?: string;
@@ -60,6 +66,8 @@ export interface Database {
           name?: string;
           size?: number;
           url?: string;
+          is_locked?: boolean;
+          reading_order?: ReadingOrderMode;
           upload_date?: string;
           created_at?: string;
           updated_at?: string;
@@ -72,6 +80,7 @@ export interface Database {
           title: string;
           pdf_ids: string[];
           messages: any; // JSON array of messages
+          usage: UsageTotals; // Tokens spent on the conversation, by model
           created_at: string;
           updated_at: string;
         };
@@ -81,6 +90,7 @@ export interface Database {
           title: string;
           pdf_ids?: string[];
           messages?: any;
+          usage?: UsageTotals;
           created_at?: string;
           updated_at?: string;
         };
@@ -90,6 +100,7 @@ export interface Database {
           title?: string;
           pdf_ids?: string[];
           messages?: any;
+          usage?: UsageTotals;
           created_at?: string;
           updated_at?: string;
         };
@@ -0,0 +1,337 @@
+import { ExtractedText } from './textExtractor';
+import { LayoutAnalyzer } from './layoutAnalyzer';
+
+export interface BibliographyEntry {
+  key: string; // The number for numbered styles, "surname:year" for author-year styles
+  label: string; // How the text cites it, e.g. "[23]" or "Smith et al., 2020"
+  text: string; // The entry as printed
+  authors: string[];
+  title?: string;
+  year?: string;
+  venue?: string;
+  doi?: string;
+  pageNumber: number;
+  pageLabel?: string;
+  offset: number; // Character offset in the page text
+  area?: EntryArea; // Where the entry sits on the page, when the page has a layout
+}
+
+// Percentages of the page size, the unit the viewer's highlight areas use
+export interface EntryArea {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export type CitationStyle = 'numeric' | 'author-year';
+
+export interface Bibliography {
+  heading: string;
+  pageNumber: number;
+  offset: number; // Where the heading starts in the page text
+  style: CitationStyle;
+  entries: BibliographyEntry[];
+}
+
+interface SectionLine {
+  text: string;
+  pageNumber: number;
+  offset: number;
+  paragraphStart: boolean; // First line after a blank line
+}
+
+const HEADING = /^(?:[\dIVXivx]+\.?\s+)?(references|bibliography|works cited|literature cited|cited literature|references and notes)\s*:?\s*$/i;
+const SECTION_END = /^(?:[A-Z\d]+\.?\s+)?(appendix|appendices|supplementary (?:material|information)|acknowledg(?:e)?ments?)\b/i;
+const NUMBERED_ENTRY = /^\s*(?:\[(\d{1,4})\]|(\d{1,4})\.(?=\s)|\((\d{1,4})\))\s*/;
+const AUTHOR_START = /^\p{Lu}[\p{L}'’-]+(?:,\s+(?:\p{Lu}\.|\p{Lu}\p{Ll}+)|\s+\p{Lu}{1,3}[,.])/u;
+const INITIALS = /^(?:\p{Lu}\.?[\s-]*)+$/u;
+const DOI = /\b(10\.\d{4,9}\/[^\s"<>]+)/i;
+
+export class BibliographyParser {
+  private static readonly MIN_NUMBERED_ENTRIES = 2;
+
+  /**
+   * Find the references section and split it into structured entries
+   */
+  static parse(pages: ExtractedText[]): Bibliography | null {
+    const start = this.findHeading(pages);
+    if (!start) {
+      return null;
+    }
+
+    const lines = this.sectionLines(pages, start.pageIndex, start.end);
+    const numbered = lines.filter(line => NUMBERED_ENTRY.test(line.text)).length >= this.MIN_NUMBERED_ENTRIES;
+    const style: CitationStyle = numbered ? 'numeric' : 'author-year';
+
+    const entries = this.splitEntries(lines, style)
+      .map(entryLines => this.parseEntry(entryLines, style, pages))
+      .filter((entry): entry is BibliographyEntry => entry !== null);
+
+    if (entries.length === 0) {
+      return null;
+    }
+
+    return {
+      heading: start.heading,
+      pageNumber: pages[start.pageIndex].pageNumber,
+      offset: start.offset,
+      style,
+      entries,
+    };
+  }
+
+  /**
+   * Last "References"-style heading in the document; earlier ones are usually in a table of contents
+   */
+  private static findHeading(pages: ExtractedText[]): { pageIndex: number; offset: number; end: number; heading: string } | null {
+    for (let pageIndex = pages.length - 1; pageIndex >= 0; pageIndex--) {
+      const lines = this.pageLines(pages[pageIndex].text);
+      for (let i = lines.length - 1; i >= 0; i--) {
+        const match = HEADING.exec(lines[i].text.trim());
+        if (match) {
+          return {
+            pageIndex,
+            offset: lines[i].offset,
+            end: lines[i].offset + lines[i].text.length,
+            heading: lines[i].text.trim(),
+          };
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Lines of the references section, from the heading to the next back-matter heading or the end
+   */
+  private static sectionLines(pages: ExtractedText[], startPage: number, startOffset: number): SectionLine[] {
+    const lines: SectionLine[] = [];
+
+    for (let pageIndex = startPage; pageIndex < pages.length; pageIndex++) {
+      const page = pages[pageIndex];
+      let paragraphStart = true;
+
+      for (const line of this.pageLines(page.text)) {
+        if (pageIndex === startPage && line.offset < startOffset) {
+          continue;
+        }
+        if (!line.text.trim()) {
+          paragraphStart = true;
+          continue;
+        }
+        if (SECTION_END.test(line.text.trim()) && line.text.length < 80) {
+          return lines;
+        }
+        lines.push({ text: line.text.trim(), pageNumber: page.pageNumber, offset: line.offset, paragraphStart });
+        paragraphStart = false;
+      }
+    }
+
+    return lines;
+  }
+
+  private static splitEntries(lines: SectionLine[], style: CitationStyle): SectionLine[][] {
+    const entries: SectionLine[][] = [];
+
+    lines.forEach((line, index) => {
+      const previous = lines[index - 1];
+      const startsEntry = style === 'numeric'
+        ? NUMBERED_ENTRY.test(line.text)
+        // Hanging-indent lists: a new entry starts a paragraph, or begins with an author after a finished entry
+        : line.paragraphStart || (AUTHOR_START.test(line.text) && /[.)]$/.test(previous?.text || ''));
+
+      if (startsEntry || entries.length === 0) {
+        entries.push([line]);
+      } else {
+        entries[entries.length - 1].push(line);
+      }
+    });
+
+    // Text before the first numbered entry is an introduction, not an entry
+    return style === 'numeric' ? entries.filter(entry => NUMBERED_ENTRY.test(entry[0].text)) : entries;
+  }
+
+  private static parseEntry(lines: SectionLine[], style: CitationStyle, pages: ExtractedText[]): BibliographyEntry | null {
+    // Rejoin wrapped lines, undoing end-of-line hyphenation
+    let text = lines.reduce((joined, line) => {
+      if (!joined) {
+        return line.text;
+      }
+      return /\p{Ll}-$/u.test(joined) && /^\p{Ll}/u.test(line.text)
+        ? joined.slice(0, -1) + line.text
+        : `${joined} ${line.text}`;
+    }, '');
+
+    let number: string | undefined;
+    if (style === 'numeric') {
+      const marker = NUMBERED_ENTRY.exec(text);
+      number = marker?.[1] || marker?.[2] || marker?.[3];
+      text = text.replace(NUMBERED_ENTRY, '');
+    }
+    if (text.length < 10) {
+      return null;
+    }
+
+    const fields = this.parseFields(text);
+    const surname = fields.authors.length > 0 ? this.surnameOf(fields.authors[0]) : undefined;
+
+    let key: string;
+    let label: string;
+    if (number) {
+      key = number;
+      label = `[${number}]`;
+    } else if (surname && fields.year) {
+      key = `${surname.toLowerCase()}:${fields.year.toLowerCase()}`;
+      label = `${this.authorLabel(fields.authors)}, ${fields.year}`;
+    } else {
+      return null;
+    }
+
+    const first = lines[0];
+    const page = pages.find(candidate => candidate.pageNumber === first.pageNumber)!;
+    const last = lines.filter(line => line.pageNumber === first.pageNumber).pop()!;
+
+    return {
+      key,
+      label,
+      text,
+      ...fields,
+      pageNumber: first.pageNumber,
+      pageLabel: page.pageLabel,
+      offset: first.offset,
+      area: this.areaOf(page, first.offset, last.offset + last.text.length),
+    };
+  }
+
+  /**
+   * Pull authors, title, year, venue and DOI out of an entry, covering the common APA, IEEE and Vancouver shapes
+   */
+  private static parseFields(text: string): Pick<BibliographyEntry, 'authors' | 'title' | 'year' | 'venue' | 'doi'> {
+    const doi = DOI.exec(text)?.[1].replace(/[.,;)\]]+$/, '');
+    const yearMatch = /\((\d{4}[a-z]?)\)/.exec(text) || /\b((?:19|20)\d{2}[a-z]?)\b/.exec(text);
+    const year = yearMatch?.[1];
+
+    let authorsText: string;
+    let title: string | undefined;
+    let rest: string;
+
+    const quoted = /[“"]([^”"]{4,}?)[,.]?[”"]/.exec(text);
+    const apaYear = /\(\d{4}[a-z]?\)\.?/.exec(text);
+    if (quoted) {
+      // IEEE: J. Smith and B. Doe, "Title," Venue, 2020.
+      authorsText = text.slice(0, quoted.index);
+      title = quoted[1];
+      rest = text.slice(quoted.index + quoted[0].length);
+    } else if (apaYear) {
+      // APA: Smith, J., & Doe, B. (2020). Title. Venue, 12(3), 45-67.
+      authorsText = text.slice(0, apaYear.index);
+      const after = this.sentences(text.slice(apaYear.index + apaYear[0].length));
+      title = after[0];
+      rest = after.slice(1).join('. ');
+    } else {
+      // Vancouver and similar: Smith J, Doe B. Title. Venue. 2020;12:45-67.
+      const parts = this.sentences(text);
+      authorsText = parts[0] || '';
+      title = parts[1];
+      rest = parts.slice(2).join('. ');
+    }
+
+    const venue = rest
+      .replace(/^[\s,.:]+/, '')
+      .replace(/^in:?\s+/i, '')
+      .split(/,\s*(?:vol\.|no\.|pp\.|\d)|\(|;|\d{4}/i)[0]
+      .replace(/[\s,.:]+$/, '')
+      .trim();
+
+    return {
+      authors: this.splitAuthors(authorsText),
+      title: title?.replace(/[\s,.]+$/, '').trim() || undefined,
+      year,
+      venue: venue && !DOI.test(venue) ? venue : undefined,
+      doi,
+    };
+  }
+
+  /**
+   * Split on sentence ends, but not after initials such as "J." or "A. B."
+   */
+  private static sentences(text: string): string[] {
+    return text
+      .split(/(?<!\b\p{Lu})\.\s+(?=[\p{Lu}\d“"])/u)
+      .map(part => part.trim())
+      .filter(Boolean);
+  }
+
+  private static splitAuthors(text: string): string[] {
+    // Keep the period of a trailing initial ("Doe, B.") but not of a sentence end
+    const cleaned = text.replace(/\bet al\.?/i, '').replace(/[\s,;:]+$/, '').replace(/(\p{Ll}{2})\.$/u, '$1').trim();
+    if (!cleaned) {
+      return [];
+    }
+
+    return cleaned
+      .split(/\s*(?:;|&|,?\s+and\s+)\s*/)
+      .filter(Boolean)
+      .flatMap(part => {
+        const pieces = part.split(/\s*,\s*/).filter(Boolean);
+        // "Smith, J. A., Doe, B." alternates surnames and initials
+        const alternating = pieces.length >= 2 && pieces.every((piece, index) => INITIALS.test(piece) === (index % 2 === 1));
+        if (!alternating) {
+          return pieces;
+        }
+        const authors: string[] = [];
+        for (let i = 0; i < pieces.length; i += 2) {
+          authors.push(pieces[i + 1] ? `${pieces[i]}, ${pieces[i + 1]}` : pieces[i]);
+        }
+        return authors;
+      });
+  }
+
+  /**
+   * Family name of an author written as "Smith, J.", "J. Smith", "John Smith" or "Smith JA"
+   */
+  static surnameOf(author: string): string {
+    if (author.includes(',')) {
+      return author.split(',')[0].trim();
+    }
+    const words = author.trim().split(/\s+/);
+    return INITIALS.test(words[words.length - 1]) && words.length > 1 ? words[0] : words[words.length - 1];
+  }
+
+  private static authorLabel(authors: string[]): string {
+    const first = this.surnameOf(authors[0]);
+    if (authors.length === 1) {
+      return first;
+    }
+    if (authors.length === 2) {
+      return `${first} & ${this.surnameOf(authors[1])}`;
+    }
+    return `${first} et al.`;
+  }
+
+  private static areaOf(page: ExtractedText, start: number, end: number): EntryArea | undefined {
+    const { width, height, paragraphs } = page.layout;
+    const box = width > 0 && height > 0 ? LayoutAnalyzer.boxForRange(paragraphs, start, end) : null;
+    if (!box) {
+      return undefined;
+    }
+
+    return {
+      left: (box.x / width) * 100,
+      top: ((height - box.y - box.height) / height) * 100,
+      width: (box.width / width) * 100,
+      height: (box.height / height) * 100,
+    };
+  }
+
+  private static pageLines(text: string): { text: string; offset: number }[] {
+    const lines: { text: string; offset: number }[] = [];
+    let offset = 0;
+    text.split('\n').forEach(line => {
+      lines.push({ text: line, offset });
+      offset += line.length + 1;
+    });
+    return lines;
+  }
+}
@@ -0,0 +1,93 @@
+import { ExtractedPDF } from './textExtractor';
+import { PageFlow } from './pageFlow';
+import { TextSpan } from './textSpans';
+import { SentenceChunkingStrategy } from './sentenceChunker';
+import { FixedSizeChunkingStrategy } from './fixedSizeChunker';
+import { ParagraphChunkingStrategy } from './paragraphChunker';
+import { SlidingWindowChunkingStrategy } from './slidingWindowChunker';
+import { SemanticChunkingStrategy } from './semanticChunker';
+
+export type ChunkingStrategyName = 'fixed' | 'sentence' | 'paragraph' | 'sliding-window' | 'semantic';
+
+// How a document is (or was) chunked; stored with the processed document
+export interface ChunkingSettings {
+  strategy: ChunkingStrategyName;
+  maxTokens: number; // Largest chunk, in tokens
+  parentTokens: number; // Largest section-level parent handed to the model when one of its chunks matches
+  overlapTokens: number; // Tokens repeated from the end of one chunk at the start of the next
+  strideTokens: number; // How far each sliding window moves; half a chunk unless set
+  breakpointPercentile: number; // Semantic: split where adjacent-sentence similarity falls in this lowest percentile
+}
+
+// Anything left out is chosen for the document
+export type ChunkingOptions = Partial<ChunkingSettings>;
+
+export interface ChunkingContext {
+  // Embeds texts with the document's embedding model; needed by the semantic strategy
+  embed?: (texts: string[]) => Promise<number[][]>;
+  signal?: AbortSignal;
+}
+
+/**
+ * Splits the text of a document into chunk spans; chunks may run across page breaks
+ */
+export interface ChunkingStrategy {
+  readonly name: ChunkingStrategyName;
+  readonly label: string;
+  chunk(flow: PageFlow, settings: ChunkingSettings, context: ChunkingContext): Promise<TextSpan[]>;
+}
+
+const DEFAULT_SETTINGS: Omit<ChunkingSettings, 'strategy' | 'strideTokens'> = {
+  maxTokens: 256,
+  parentTokens: 1024,
+  overlapTokens: 50,
+  breakpointPercentile: 10,
+};
+
+export class ChunkingStrategies {
+  private static strategies: ChunkingStrategy[] = [
+    new SentenceChunkingStrategy(),
+    new ParagraphChunkingStrategy(),
+    new FixedSizeChunkingStrategy(),
+    new SlidingWindowChunkingStrategy(),
+    new SemanticChunkingStrategy(),
+  ];
+
+  /**
+   * Add a strategy, replacing any existing one with the same name
+   */
+  static register(strategy: ChunkingStrategy): void {
+    this.strategies = [...this.strategies.filter(existing => existing.name !== strategy.name), strategy];
+  }
+
+  static get(name: ChunkingStrategyName): ChunkingStrategy {
+    return this.strategies.find(strategy => strategy.name === name) || this.strategies[0];
+  }
+
+  static list(): ChunkingStrategy[] {
+    return [...this.strategies];
+  }
+
+  /**
+   * Complete the options for a document, picking a strategy when none was asked for
+   */
+  static resolve(extractedPDF: ExtractedPDF, options: ChunkingOptions = {}): ChunkingSettings {
+    const maxTokens = Math.max(1, options.maxTokens ?? DEFAULT_SETTINGS.maxTokens);
+    return {
+      strategy: options.strategy ?? this.recommend(extractedPDF),
+      maxTokens,
+      parentTokens: Math.max(maxTokens, options.parentTokens ?? DEFAULT_SETTINGS.parentTokens),
+      overlapTokens: Math.min(Math.max(0, options.overlapTokens ?? DEFAULT_SETTINGS.overlapTokens), Math.floor(maxTokens / 2)),
+      strideTokens: Math.min(Math.max(1, options.strideTokens ?? Math.floor(maxTokens / 2)), maxTokens),
+      breakpointPercentile: Math.min(Math.max(1, options.breakpointPercentile ?? DEFAULT_SETTINGS.breakpointPercentile), 99),
+    };
+  }
+
+  /**
+   * Documents with known headings chunk best along their sections; others by sentences
+   */
+  private static recommend(extractedPDF: ExtractedPDF): ChunkingStrategyName {
+    const hasSections = extractedPDF.extractedText.some(pageText => pageText.sectionStarts.length > 0);
+    return hasSections ? 'paragraph' : 'sentence';
+  }
+}
@@ -0,0 +1,96 @@
+import { Bibliography, BibliographyEntry, BibliographyParser } from './bibliographyParser';
+
+export interface ChunkCitation {
+  marker: string; // As it appears in the text, e.g. "[3, 5–7]" or "(Smith et al., 2020)"
+  start: number; // Character offsets in the chunk text
+  end: number;
+  keys: string[]; // Bibliography entry keys the marker refers to
+}
+
+// A citation resolved to its bibliography entries, as shown with chat sources
+export interface SourceCitation {
+  marker: string;
+  references: BibliographyEntry[];
+}
+
+const NUMERIC_MARKER = /\[(\d{1,4}(?:\s*[-–—,]\s*\d{1,4})*)\]/g;
+const PARENTHETICAL_MARKER = /\(([^()]*?\b(?:19|20)\d{2}[a-z]?[^()]*)\)/g;
+const NARRATIVE_MARKER = /(\p{Lu}[\p{L}'’-]+)(?:\s+et al\.?|\s+(?:and|&)\s+\p{Lu}[\p{L}'’-]+)?\s+\(((?:19|20)\d{2}[a-z]?)\)/gu;
+const AUTHOR_YEAR = /(\p{Lu}[\p{L}'’-]+)(?:\s+et al\.?|\s+(?:and|&)\s+\p{Lu}[\p{L}'’-]+)?,?\s+((?:19|20)\d{2}[a-z]?)/u;
+
+export class CitationLinker {
+  private static readonly MAX_RANGE = 50; // Longest "[n–m]" range expanded
+
+  /**
+   * Find in-text citation markers and link them to bibliography entries
+   */
+  static link(text: string, bibliography: Bibliography | null): ChunkCitation[] {
+    if (!bibliography) {
+      return [];
+    }
+
+    const known = new Set(bibliography.entries.map(entry => entry.key));
+    const citations: ChunkCitation[] = [];
+    const add = (marker: string, start: number, keys: string[]) => {
+      const resolved = keys.filter(key => known.has(key));
+      if (resolved.length > 0) {
+        citations.push({ marker, start, end: start + marker.length, keys: [...new Set(resolved)] });
+      }
+    };
+
+    if (bibliography.style === 'numeric') {
+      for (const match of text.matchAll(NUMERIC_MARKER)) {
+        add(match[0], match.index!, this.expandNumbers(match[1]));
+      }
+      return citations;
+    }
+
+    for (const match of text.matchAll(PARENTHETICAL_MARKER)) {
+      const keys = match[1].split(';').map(part => {
+        const citation = AUTHOR_YEAR.exec(part);
+        return citation ? this.authorYearKey(citation[1], citation[2]) : '';
+      });
+      add(match[0], match.index!, keys);
+    }
+    for (const match of text.matchAll(NARRATIVE_MARKER)) {
+      add(match[0], match.index!, [this.authorYearKey(match[1], match[2])]);
+    }
+
+    return citations.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Look up the bibliography entries behind a chunk's citations
+   */
+  static resolve(citations: ChunkCitation[] | undefined, bibliography: Bibliography | null): SourceCitation[] {
+    if (!citations || !bibliography) {
+      return [];
+    }
+
+    const entries = new Map(bibliography.entries.map(entry => [entry.key, entry]));
+    return citations.map(citation => ({
+      marker: citation.marker,
+      references: citation.keys.map(key => entries.get(key)).filter((entry): entry is BibliographyEntry => !!entry),
+    }));
+  }
+
+  /**
+   * "3, 5–7" -> ["3", "5", "6", "7"]
+   */
+  private static expandNumbers(list: string): string[] {
+    return list.split(',').flatMap(part => {
+      const [from, to] = part.split(/[-–—]/).map(value => parseInt(value.trim(), 10));
+      if (to === undefined || isNaN(to)) {
+        return [String(from)];
+      }
+      if (to < from || to - from > this.MAX_RANGE) {
+        return [String(from), String(to)];
+      }
+      return Array.from({ length: to - from + 1 }, (_, index) => String(from + index));
+    });
+  }
+
+  private static authorYearKey(author: string, year: string): string {
+    return `${BibliographyParser.surnameOf(author).toLowerCase()}:${year.toLowerCase()}`;
+  }
+}
@@ -1,5 +1,11 @@
 import { supabase } from '../lib/supabase';
 import { PDFDocument } from '../components/PDFManager';
+import { DocumentExtractors } from './documentExtractor';
+import { SourceCitation } from './citationLinker';
+import { HighlightArea } from './sourceLocator';
+import { SourceOccurrence } from './ragService';
+import { UsageTotals } from './usageMeter';
+import { ReadingOrderMode } from './readingOrder';
 import { Annotation } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -9,11 +15,20 @@ export interface ChatMessage {
   content: string;
   timestamp: Date;
   sources?: Array<{
+    pdfId?: string;
     pdfName: string;
     pageNumber: number;
+    pageLabel?: string;
+    endPageNumber?: number;
+    endPageLabel?: string;
+    section?: string;
     text: string;
     similarity: number;
+    citations?: SourceCitation[];
+    areas?: HighlightArea[];
+    occurrences?: SourceOccurrence[];
   }>;
+  usage?: UsageTotals; // Tokens spent producing an assistant message
 }
 
 export interface Conversation {
@@ -21,6 +36,7 @@ export interface Conversation {
   name: string;
   pdfIds: string[];
   messages: ChatMessage[];
+  usage?: UsageTotals; // Tokens spent on the whole conversation, by model
   createdAt: Date;
   updatedAt: Date;
 }
@@ -227,7 +243,9 @@ export class DatabaseService {
           user_id: this.currentUserId,
           name: pdf.name,
           size: pdf.file.size,
-          url: publicUrl
+          url: publicUrl,
+          is_locked: pdf.isLocked ?? false,
+          reading_order: pdf.readingOrder ?? 'layout'
         })
         .select('id')
         .single();
@@ -270,7 +288,9 @@ export class DatabaseService {
           continue;
         }
 
-        const file = new File([fileData], dbPdf.name, { type: 'application/pdf' });
+        // The stored object keeps the original extension, which tells us the document format
+        const extractor = DocumentExtractors.forFileName(fileName) || DocumentExtractors.forFormat('pdf')!;
+        const file = new File([fileData], `${dbPdf.name}.${extractor.extensions[0]}`, { type: extractor.mimeTypes[0] });
         const dataUrl = await this.fileToDataUrl(file);
 
         pdfs.push({
@@ -278,7 +298,10 @@ export class DatabaseService {
           name: dbPdf.name,
           file,
           dataUrl,
-          uploadDate: new Date(dbPdf.upload_date)
+          uploadDate: new Date(dbPdf.upload_date),
+          format: extractor.format,
+          isLocked: dbPdf.is_locked ?? false,
+          readingOrder: dbPdf.reading_order ?? 'layout'
         });
       }
 
@@ -302,6 +325,7 @@ export class DatabaseService {
           title: conversation.name,
           pdf_ids: conversation.pdfIds,
           messages: conversation.messages,
+          usage: conversation.usage || {},
           updated_at: new Date().toISOString()
         }, {
           onConflict: 'id'
@@ -331,6 +355,7 @@ export class DatabaseService {
         name: conv.title,
         pdfIds: conv.pdf_ids,
         messages: conv.messages || [],
+        usage: conv.usage || {},
         createdAt: new Date(conv.created_at),
         updatedAt: new Date(conv.updated_at)
       }));
@@ -360,6 +385,7 @@ export class DatabaseService {
         name: data.title,
         pdfIds: data.pdf_ids,
         messages: data.messages || [],
+        usage: data.usage || {},
         createdAt: new Date(data.created_at),
         updatedAt: new Date(data.updated_at)
       };
@@ -482,6 +508,23 @@ export class DatabaseService {
     }
   }
 
+  async setReadingOrder(pdfId: string, readingOrder: ReadingOrderMode): Promise<void> {
+    if (!this.currentUserId) throw new Error('User not initialized');
+
+    try {
+      const { error } = await supabase
+        .from('pdfs')
+        .update({ reading_order: readingOrder })
+        .eq('id', pdfId)
+        .eq('user_id', this.currentUserId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error saving reading order:', error);
+      throw error;
+    }
+  }
+
   async deletePDF(pdfId: string): Promise<void> {
     if (!this.currentUserId) throw new Error('User not initialized');
 
@@ -0,0 +1,97 @@
+import { TextExtractor, ExtractedPDF, ExtractionOptions } from './textExtractor';
+import { DocxExtractor } from './docxExtractor';
+import { EpubExtractor } from './epubExtractor';
+import { HtmlExtractor } from './htmlExtractor';
+import { MarkdownExtractor } from './markdownExtractor';
+import { PlainTextExtractor } from './plainTextExtractor';
+import { DocumentFormat } from '../types';
+
+/**
+ * Turns an uploaded file into pages of text. Formats without physical pages
+ * use logical ones (chapters or sections) so chat and retrieval work unchanged.
+ */
+export interface DocumentExtractor {
+  readonly format: DocumentFormat;
+  readonly extensions: string[]; // Lower-case, without the dot
+  readonly mimeTypes: string[]; // The first one is used when a stored file is reloaded
+  // Parsers that rely on DOMParser cannot run inside the ingest worker
+  readonly requiresDOM: boolean;
+  extract(file: File, id: string, name: string, options?: ExtractionOptions): Promise<ExtractedPDF>;
+}
+
+class PDFExtractor implements DocumentExtractor {
+  readonly format = 'pdf';
+  readonly extensions = ['pdf'];
+  readonly mimeTypes = ['application/pdf'];
+  readonly requiresDOM = false;
+
+  extract(file: File, id: string, name: string, options: ExtractionOptions = {}): Promise<ExtractedPDF> {
+    return TextExtractor.extractTextFromPDF(file, id, name, options);
+  }
+}
+
+export class DocumentExtractors {
+  private static extractors: DocumentExtractor[] = [
+    new PDFExtractor(),
+    new DocxExtractor(),
+    new EpubExtractor(),
+    new HtmlExtractor(),
+    new MarkdownExtractor(),
+    new PlainTextExtractor(),
+  ];
+
+  /**
+   * Add an extractor, replacing any existing one for the same format
+   */
+  static register(extractor: DocumentExtractor): void {
+    this.extractors = [extractor, ...this.extractors.filter(existing => existing.format !== extractor.format)];
+  }
+
+  /**
+   * Find the extractor for a file, by extension first since browsers report
+   * inconsistent MIME types for Markdown and EPUB files
+   */
+  static forFile(file: File): DocumentExtractor | null {
+    return this.forFileName(file.name)
+      || this.extractors.find(extractor => file.type && extractor.mimeTypes.includes(file.type))
+      || null;
+  }
+
+  static forFileName(fileName: string): DocumentExtractor | null {
+    const extension = this.extensionOf(fileName);
+    return this.extractors.find(extractor => extension && extractor.extensions.includes(extension)) || null;
+  }
+
+  static forFormat(format: DocumentFormat): DocumentExtractor | null {
+    return this.extractors.find(extractor => extractor.format === format) || null;
+  }
+
+  static isSupported(file: File): boolean {
+    return this.forFile(file) !== null;
+  }
+
+  /**
+   * Value for the `accept` attribute of a file input
+   */
+  static acceptedTypes(): string {
+    return this.extractors
+      .flatMap(extractor => [...extractor.extensions.map(extension => `.${extension}`), ...extractor.mimeTypes])
+      .join(',');
+  }
+
+  /**
+   * Extract a document of any supported format
+   */
+  static async extract(file: File, id: string, name: string, options: ExtractionOptions = {}): Promise<ExtractedPDF> {
+    const extractor = this.forFile(file);
+    if (!extractor) {
+      throw new Error(`Unsupported file type: ${file.name}`);
+    }
+    return extractor.extract(file, id, name, options);
+  }
+
+  static extensionOf(fileName: string): string | null {
+    const match = /\.([a-z0-9]+)$/i.exec(fileName);
+    return match ? match[1].toLowerCase() : null;
+  }
+}
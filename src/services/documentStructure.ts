@@ -0,0 +1,169 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { LayoutAnalyzer, TextParagraph } from './layoutAnalyzer';
+
+// An outline entry as pdf.js returns it; its dest is a named destination or an explicit one
+type OutlineNode = Awaited<ReturnType<PDFDocumentProxy['getOutline']>>[number];
+type PageRef = Parameters<PDFDocumentProxy['getPageIndex']>[0];
+// [page reference or index, { name: fit mode }, ...coordinates whose meaning depends on the mode]
+type ExplicitDestination = [PageRef | number, { name?: string } | null, ...Array<number | null>];
+
+export interface OutlineEntry {
+  title: string;
+  path: string[]; // Titles from the top-level entry down to this one
+  level: number;
+  pageNumber: number | null; // null when the destination cannot be resolved
+  top?: number; // Destination y coordinate in PDF user space, when the outline provides one
+}
+
+export interface SectionStart {
+  path: string[];
+  offset: number; // Character offset in the page text where the section begins
+}
+
+export class DocumentStructure {
+  private static readonly POSITION_TOLERANCE = 2; // Points a heading may sit above its destination
+
+  /**
+   * Read the PDF outline and flatten it in document order with resolved page numbers
+   */
+  static async extractOutline(pdf: PDFDocumentProxy): Promise<OutlineEntry[]> {
+    const outline = await pdf.getOutline().catch(() => null);
+    if (!outline) {
+      return [];
+    }
+
+    const entries: OutlineEntry[] = [];
+    const visit = async (items: OutlineNode[], parentPath: string[]) => {
+      for (const item of items) {
+        const title = (item.title || '').trim();
+        const path = [...parentPath, title];
+        const { pageNumber, top } = await this.resolveDestination(pdf, item.dest);
+
+        entries.push({ title, path, level: parentPath.length, pageNumber, top });
+
+        if (item.items?.length) {
+          await visit(item.items, path);
+        }
+      }
+    };
+    await visit(outline, []);
+
+    return entries;
+  }
+
+  /**
+   * Read the page labels (e.g. roman numerals for front matter), if the PDF defines them
+   */
+  static async extractPageLabels(pdf: PDFDocumentProxy): Promise<string[] | null> {
+    const labels: string[] | null = await pdf.getPageLabels().catch(() => null);
+
+    // Labels that merely repeat the physical page number add nothing
+    if (!labels || labels.every((label, index) => label === String(index + 1))) {
+      return null;
+    }
+    return labels;
+  }
+
+  /**
+   * Section path in effect at the top of a page
+   */
+  static sectionAtPageStart(outline: OutlineEntry[], pageNumber: number): string[] {
+    let path: string[] = [];
+
+    outline.forEach(entry => {
+      if (entry.pageNumber !== null && entry.pageNumber < pageNumber) {
+        path = entry.path;
+      }
+    });
+
+    return path;
+  }
+
+  /**
+   * Sections that begin on a page, with the character offset where each starts
+   */
+  static sectionStartsOnPage(
+    outline: OutlineEntry[],
+    pageNumber: number,
+    pageText: string,
+    paragraphs: TextParagraph[]
+  ): SectionStart[] {
+    const starts: SectionStart[] = [];
+    let searchFrom = 0;
+
+    outline
+      .filter(entry => entry.pageNumber === pageNumber)
+      .forEach(entry => {
+        const offset = Math.max(this.locateHeading(entry, pageText, paragraphs, searchFrom), searchFrom);
+        starts.push({ path: entry.path, offset });
+        searchFrom = offset;
+      });
+
+    return starts;
+  }
+
+  /**
+   * Find where a heading sits in the page text, by its title or by the destination position
+   */
+  private static locateHeading(
+    entry: OutlineEntry,
+    pageText: string,
+    paragraphs: TextParagraph[],
+    searchFrom: number
+  ): number {
+    const titleOffset = this.findTitle(entry.title, pageText, searchFrom);
+    if (titleOffset >= 0) {
+      return titleOffset;
+    }
+
+    if (entry.top === undefined) {
+      return 0;
+    }
+
+    return LayoutAnalyzer.offsetAtY(paragraphs, entry.top, this.POSITION_TOLERANCE) ?? 0;
+  }
+
+  /**
+   * Case- and whitespace-insensitive search for an outline title
+   */
+  private static findTitle(title: string, pageText: string, searchFrom: number): number {
+    const words = title.split(/\s+/).filter(Boolean).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    if (words.length === 0) {
+      return -1;
+    }
+
+    const pattern = new RegExp(words.join('\\s+'), 'i');
+    const match = pattern.exec(pageText.slice(searchFrom));
+    return match ? searchFrom + match.index : -1;
+  }
+
+  /**
+   * Resolve an outline destination to a 1-based page number and optional top coordinate
+   */
+  private static async resolveDestination(
+    pdf: PDFDocumentProxy,
+    dest: OutlineNode['dest']
+  ): Promise<{ pageNumber: number | null; top?: number }> {
+    try {
+      const explicitDest = (typeof dest === 'string' ? await pdf.getDestination(dest) : dest) as ExplicitDestination | null;
+      if (!Array.isArray(explicitDest) || explicitDest.length === 0) {
+        return { pageNumber: null };
+      }
+
+      const [target, mode] = explicitDest;
+      const pageIndex = typeof target === 'number' ? target : await pdf.getPageIndex(target);
+
+      let top: number | undefined;
+      if (mode?.name === 'XYZ') {
+        top = explicitDest[3] ?? undefined;
+      } else if (mode?.name === 'FitH' || mode?.name === 'FitBH') {
+        top = explicitDest[2] ?? undefined;
+      }
+
+      return { pageNumber: pageIndex + 1, top: typeof top === 'number' ? top : undefined };
+    } catch (error) {
+      console.warn('Could not resolve outline destination:', error);
+      return { pageNumber: null };
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import JSZip from 'jszip';
+import { DocumentExtractor } from './documentExtractor';
+import { ExtractedPDF } from './textExtractor';
+import { StructuredDocument, DocumentBlock } from './structuredDocument';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+export class DocxExtractor implements DocumentExtractor {
+  readonly format = 'docx';
+  readonly extensions = ['docx'];
+  readonly mimeTypes = ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
+  readonly requiresDOM = true;
+
+  /**
+   * Read the paragraphs and tables of a Word document, split into sections at its headings
+   */
+  async extract(file: File, id: string, name: string): Promise<ExtractedPDF> {
+    const zip = await JSZip.loadAsync(await file.arrayBuffer());
+    const documentXml = await zip.file('word/document.xml')?.async('string');
+    if (!documentXml) {
+      throw new Error('DOCX is missing word/document.xml');
+    }
+
+    const stylesXml = await zip.file('word/styles.xml')?.async('string');
+    const headingStyles = stylesXml ? this.headingStyles(this.parseXml(stylesXml)) : new Map<string, number>();
+    const body = this.parseXml(documentXml).getElementsByTagNameNS(W_NS, 'body')[0];
+
+    const blocks: DocumentBlock[] = [];
+    const visit = (element: Element) => {
+      Array.from(element.children).forEach(child => {
+        if (child.namespaceURI !== W_NS) {
+          return;
+        }
+        if (child.localName === 'p') {
+          const text = this.paragraphText(child);
+          const level = this.headingLevel(child, headingStyles);
+          if (text) {
+            blocks.push(level ? { type: 'heading', level, text } : { type: 'paragraph', text });
+          }
+        } else if (child.localName === 'tbl') {
+          const rows = this.tableRows(child);
+          if (rows.length > 0) {
+            blocks.push({ type: 'table', rows });
+          }
+        } else if (['sdt', 'sdtContent', 'customXml'].includes(child.localName)) {
+          // Content controls wrap ordinary paragraphs and tables
+          visit(child);
+        }
+      });
+    };
+    if (body) {
+      visit(body);
+    }
+
+    return StructuredDocument.toExtractedPDF(blocks, id, name, this.format);
+  }
+
+  /**
+   * Map paragraph style ids to heading levels, from the style names or their outline level
+   */
+  private headingStyles(styles: Document): Map<string, number> {
+    const levels = new Map<string, number>();
+
+    Array.from(styles.getElementsByTagNameNS(W_NS, 'style')).forEach(style => {
+      const styleId = style.getAttributeNS(W_NS, 'styleId');
+      if (!styleId || style.getAttributeNS(W_NS, 'type') !== 'paragraph') {
+        return;
+      }
+
+      const styleName = (this.childValue(style, 'name') || '').toLowerCase();
+      const outlineLevel = this.childValue(style.getElementsByTagNameNS(W_NS, 'pPr')[0], 'outlineLvl');
+      const heading = /^heading (\d)$/.exec(styleName);
+
+      if (styleName === 'title') {
+        levels.set(styleId, 1);
+      } else if (heading) {
+        levels.set(styleId, Number(heading[1]));
+      } else if (outlineLevel !== null && Number(outlineLevel) < 9) {
+        levels.set(styleId, Number(outlineLevel) + 1);
+      }
+    });
+
+    return levels;
+  }
+
+  private headingLevel(paragraph: Element, headingStyles: Map<string, number>): number | null {
+    const properties = Array.from(paragraph.children).find(child => child.localName === 'pPr');
+    if (!properties) {
+      return null;
+    }
+
+    const styleId = this.childValue(properties, 'pStyle');
+    if (styleId && headingStyles.has(styleId)) {
+      return headingStyles.get(styleId)!;
+    }
+
+    // Documents without styles.xml still use the built-in style ids
+    const builtIn = styleId ? /^(?:heading(\d)|(title))$/i.exec(styleId) : null;
+    if (builtIn) {
+      return builtIn[2] ? 1 : Number(builtIn[1]);
+    }
+
+    const outlineLevel = this.childValue(properties, 'outlineLvl');
+    return outlineLevel !== null && Number(outlineLevel) < 9 ? Number(outlineLevel) + 1 : null;
+  }
+
+  private paragraphText(paragraph: Element): string {
+    let text = '';
+    Array.from(paragraph.getElementsByTagNameNS(W_NS, '*')).forEach(element => {
+      switch (element.localName) {
+        case 't':
+          text += element.textContent || '';
+          break;
+        case 'tab':
+          text += '\t';
+          break;
+        case 'br':
+        case 'cr':
+          text += '\n';
+          break;
+        case 'noBreakHyphen':
+          text += '-';
+          break;
+      }
+    });
+    return text.replace(/[ \t]+/g, ' ').replace(/ *\n */g, '\n').trim();
+  }
+
+  private tableRows(table: Element): string[][] {
+    return Array.from(table.children)
+      .filter(row => row.localName === 'tr')
+      .map(row => Array.from(row.children)
+        .filter(cell => cell.localName === 'tc')
+        .map(cell => Array.from(cell.getElementsByTagNameNS(W_NS, 'p'))
+          .map(paragraph => this.paragraphText(paragraph))
+          .filter(Boolean)
+          .join(' ')))
+      .filter(cells => cells.some(Boolean));
+  }
+
+  private childValue(element: Element | undefined, localName: string): string | null {
+    const child = element && Array.from(element.children).find(candidate => candidate.localName === localName);
+    return child ? child.getAttributeNS(W_NS, 'val') : null;
+  }
+
+  private parseXml(xml: string): Document {
+    return new DOMParser().parseFromString(xml, 'application/xml');
+  }
+}
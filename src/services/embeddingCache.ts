@@ -0,0 +1,239 @@
+// A stored embedding; vectors are kept as 32-bit floats, the precision the providers return
+interface CachedEmbedding {
+  key: string; // `${namespace}:${sha-256 of the normalized text}`
+  vector: Float32Array;
+  bytes: number;
+  lastUsed: number;
+}
+
+// Running totals, kept in the same transactions as the entries they count
+interface CacheTotals {
+  key: 'totals';
+  entries: number;
+  bytes: number;
+  hits: number;
+  misses: number;
+}
+
+export interface EmbeddingCacheStats {
+  entries: number;
+  bytes: number;
+  hits: number;
+  misses: number;
+  hitRate: number; // 0-1
+  maxEntries: number;
+  maxBytes: number;
+}
+
+/**
+ * Embeddings persisted in IndexedDB, keyed by embedding model and a hash of the normalized text, so
+ * documents processed again after a reload are not embedded again. The least recently used entries are
+ * evicted once the cache outgrows its limits. Shared by the main thread and the ingest worker.
+ */
+export class EmbeddingCache {
+  private static readonly DB_NAME = 'smart-pdf-reader-embeddings';
+  private static readonly DB_VERSION = 1;
+  private static readonly ENTRIES = 'embeddings';
+  private static readonly META = 'meta';
+  private static maxEntries = 100_000;
+  private static maxBytes = 256 * 1024 * 1024;
+  private static dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  static configure(limits: { maxEntries?: number; maxBytes?: number }): void {
+    this.maxEntries = limits.maxEntries ?? this.maxEntries;
+    this.maxBytes = limits.maxBytes ?? this.maxBytes;
+  }
+
+  /**
+   * Cached embeddings of texts under a namespace (the provider and model), undefined where there is none
+   */
+  static async getMany(namespace: string, texts: string[]): Promise<Array<number[] | undefined>> {
+    const db = await this.open();
+    if (!db || texts.length === 0) {
+      return texts.map(() => undefined);
+    }
+
+    const keys = await Promise.all(texts.map(text => this.keyFor(namespace, text)));
+    const transaction = db.transaction([this.ENTRIES, this.META], 'readwrite');
+    const entries = transaction.objectStore(this.ENTRIES);
+    const meta = transaction.objectStore(this.META);
+
+    const [found, totals] = await Promise.all([
+      Promise.all(keys.map(key => this.request<CachedEmbedding | undefined>(entries.get(key)))),
+      this.getTotals(meta),
+    ]);
+
+    // Reading an entry makes it the most recently used
+    const now = Date.now();
+    found.forEach(entry => {
+      if (entry) {
+        entries.put({ ...entry, lastUsed: now });
+      }
+    });
+    const hits = found.filter(Boolean).length;
+    meta.put({ ...totals, hits: totals.hits + hits, misses: totals.misses + found.length - hits });
+
+    await this.complete(transaction);
+    return found.map(entry => entry ? Array.from(entry.vector) : undefined);
+  }
+
+  /**
+   * Store the embeddings of texts under a namespace, then evict whatever no longer fits
+   */
+  static async putMany(namespace: string, texts: string[], embeddings: number[][]): Promise<void> {
+    const db = await this.open();
+    if (!db || texts.length === 0) {
+      return;
+    }
+
+    const keys = await Promise.all(texts.map(text => this.keyFor(namespace, text)));
+    const transaction = db.transaction([this.ENTRIES, this.META], 'readwrite');
+    const entries = transaction.objectStore(this.ENTRIES);
+    const meta = transaction.objectStore(this.META);
+
+    const [existing, totals] = await Promise.all([
+      Promise.all(keys.map(key => this.request<CachedEmbedding | undefined>(entries.get(key)))),
+      this.getTotals(meta),
+    ]);
+
+    // The same text can occur twice in one call; it is stored (and counted) once
+    const now = Date.now();
+    const added = new Map<string, CachedEmbedding>();
+    keys.forEach((key, index) => {
+      const vector = Float32Array.from(embeddings[index]);
+      added.set(key, { key, vector, bytes: vector.byteLength, lastUsed: now });
+    });
+
+    let { entries: count, bytes } = totals;
+    added.forEach(entry => {
+      const previous = existing[keys.indexOf(entry.key)];
+      count += previous ? 0 : 1;
+      bytes += entry.bytes - (previous?.bytes ?? 0);
+      entries.put(entry);
+    });
+    meta.put({ ...totals, entries: count, bytes });
+    await this.complete(transaction);
+
+    if (count > this.maxEntries || bytes > this.maxBytes) {
+      await this.evict(db);
+    }
+  }
+
+  static async getStats(): Promise<EmbeddingCacheStats> {
+    const db = await this.open();
+    const totals = db
+      ? await this.getTotals(db.transaction(this.META, 'readonly').objectStore(this.META))
+      : this.emptyTotals();
+    const lookups = totals.hits + totals.misses;
+    return {
+      entries: totals.entries,
+      bytes: totals.bytes,
+      hits: totals.hits,
+      misses: totals.misses,
+      hitRate: lookups > 0 ? totals.hits / lookups : 0,
+      maxEntries: this.maxEntries,
+      maxBytes: this.maxBytes,
+    };
+  }
+
+  static async clear(): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      return;
+    }
+    const transaction = db.transaction([this.ENTRIES, this.META], 'readwrite');
+    transaction.objectStore(this.ENTRIES).clear();
+    transaction.objectStore(this.META).put(this.emptyTotals());
+    await this.complete(transaction);
+  }
+
+  /**
+   * Delete the least recently used entries until the cache is within its limits again
+   */
+  private static async evict(db: IDBDatabase): Promise<void> {
+    const transaction = db.transaction([this.ENTRIES, this.META], 'readwrite');
+    const entries = transaction.objectStore(this.ENTRIES);
+    const meta = transaction.objectStore(this.META);
+    const totals = await this.getTotals(meta);
+
+    let { entries: count, bytes } = totals;
+    const cursorRequest = entries.index('lastUsed').openCursor();
+    await new Promise<void>((resolve, reject) => {
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || (count <= this.maxEntries && bytes <= this.maxBytes)) {
+          resolve();
+          return;
+        }
+        count -= 1;
+        bytes -= (cursor.value as CachedEmbedding).bytes;
+        cursor.delete();
+        cursor.continue();
+      };
+    });
+
+    meta.put({ ...totals, entries: count, bytes });
+    await this.complete(transaction);
+    console.log(`Embedding cache evicted ${totals.entries - count} entries`);
+  }
+
+  /**
+   * Open the database once; resolves with null where IndexedDB is unavailable, which turns the cache off
+   */
+  private static open(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined' || typeof crypto === 'undefined' || !crypto.subtle) {
+          resolve(null);
+          return;
+        }
+        const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(this.ENTRIES, { keyPath: 'key' });
+          store.createIndex('lastUsed', 'lastUsed');
+          request.result.createObjectStore(this.META, { keyPath: 'key' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('Embedding cache unavailable:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Texts that differ only in whitespace or Unicode composition share an entry
+   */
+  private static async keyFor(namespace: string, text: string): Promise<string> {
+    const normalized = text.normalize('NFC').replace(/\s+/g, ' ').trim();
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized));
+    const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+    return `${namespace}:${hex}`;
+  }
+
+  private static async getTotals(meta: IDBObjectStore): Promise<CacheTotals> {
+    return (await this.request<CacheTotals | undefined>(meta.get('totals'))) || this.emptyTotals();
+  }
+
+  private static emptyTotals(): CacheTotals {
+    return { key: 'totals', entries: 0, bytes: 0, hits: 0, misses: 0 };
+  }
+
+  private static request<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private static complete(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
@@ -0,0 +1,104 @@
+import { OpenAIEmbeddingProvider } from './openAIEmbeddingProvider';
+import { WasmEmbeddingProvider } from './wasmEmbeddingProvider';
+import { HashingEmbeddingProvider } from './hashingEmbeddingProvider';
+
+export type EmbeddingProviderKind = 'openai' | 'openai-compatible' | 'wasm' | 'hashing';
+
+// Which embedding backend and model a workspace uses; plain data, so it can be handed to the ingest worker
+export interface EmbeddingProviderConfig {
+  kind: EmbeddingProviderKind;
+  model?: string; // The kind's default model unless set
+  baseUrl?: string; // API root of an OpenAI-compatible server, or where the WASM model files are fetched from
+  apiKey?: string;
+  dimensions?: number; // Length of the vectors, for models that can shorten them
+  tokensPerMinute?: number; // Rate limit of the account or server; requests are paced to stay under it
+}
+
+// Vectors for a batch of texts, in order, and the tokens the call was billed for (estimated when the provider does not say)
+export interface EmbeddingBatch {
+  embeddings: number[][];
+  promptTokens: number;
+}
+
+/**
+ * Turns texts into embedding vectors; vectors from one provider and model are comparable with each other only
+ */
+export interface EmbeddingProvider {
+  readonly kind: EmbeddingProviderKind;
+  readonly model: string;
+  readonly dimensions?: number; // Set when configured; the model's own length otherwise
+  readonly maxBatchSize: number; // Most texts a single embed call may be given
+  readonly tokensPerMinute?: number; // Unlimited unless set
+  readonly cacheable: boolean; // Whether results are worth keeping in the embedding cache
+  embed(texts: string[], signal?: AbortSignal): Promise<EmbeddingBatch>;
+}
+
+export interface EmbeddingProviderType {
+  kind: EmbeddingProviderKind;
+  label: string;
+  defaultModel: string;
+  create(config: EmbeddingProviderConfig): EmbeddingProvider;
+}
+
+export class EmbeddingProviders {
+  private static types: EmbeddingProviderType[] = [
+    {
+      kind: 'openai',
+      label: 'OpenAI',
+      defaultModel: OpenAIEmbeddingProvider.DEFAULT_MODEL,
+      create: config => new OpenAIEmbeddingProvider(config),
+    },
+    {
+      kind: 'openai-compatible',
+      label: 'Local server (Ollama, LM Studio)',
+      defaultModel: 'nomic-embed-text',
+      create: config => new OpenAIEmbeddingProvider(config),
+    },
+    {
+      kind: 'wasm',
+      label: 'In-browser model',
+      defaultModel: WasmEmbeddingProvider.DEFAULT_MODEL,
+      create: config => new WasmEmbeddingProvider(config),
+    },
+    {
+      kind: 'hashing',
+      label: 'Offline hashing (testing)',
+      defaultModel: HashingEmbeddingProvider.DEFAULT_MODEL,
+      create: config => new HashingEmbeddingProvider(config),
+    },
+  ];
+
+  /**
+   * Add a provider type, replacing any existing one of the same kind
+   */
+  static register(type: EmbeddingProviderType): void {
+    this.types = [...this.types.filter(existing => existing.kind !== type.kind), type];
+  }
+
+  static list(): EmbeddingProviderType[] {
+    return [...this.types];
+  }
+
+  static get(kind: EmbeddingProviderKind): EmbeddingProviderType | undefined {
+    return this.types.find(type => type.kind === kind);
+  }
+
+  /**
+   * Create the provider a configuration describes, filling in the kind's default model
+   */
+  static create(config: EmbeddingProviderConfig): EmbeddingProvider {
+    const type = this.get(config.kind);
+    if (!type) {
+      throw new Error(`Unknown embedding provider: ${config.kind}`);
+    }
+    return type.create({ ...config, model: config.model || type.defaultModel });
+  }
+
+  /**
+   * Versioned name of the vectors a provider makes, e.g. "openai:text-embedding-3-small:512". Embeddings
+   * are comparable only when their model ids are equal.
+   */
+  static modelId(provider: Pick<EmbeddingProvider, 'kind' | 'model' | 'dimensions'>): string {
+    return [provider.kind, provider.model, provider.dimensions].filter(Boolean).join(':');
+  }
+}
@@ -1,88 +1,116 @@
 import { TextChunk } from './textChunker';
+import { EmbeddingProvider, EmbeddingProviders } from './embeddingProvider';
+import { EmbeddingCache } from './embeddingCache';
+import { RetryPolicy } from './retryPolicy';
+import { TokenBudget } from './tokenBudget';
+import { Tokenizer } from './tokenizer';
+import { UsageMeter } from './usageMeter';
 
 export interface EmbeddedChunk extends TextChunk {
   embedding: number[];
-  embeddingModel: string;
+  embeddingModel: string; // Model id of the provider, see EmbeddingProviders.modelId
   embeddedAt: Date;
 }
 
-export interface EmbeddingResponse {
-  data: Array<{
-    embedding: number[];
-    index: number;
-  }>;
-  model: string;
-  usage: {
-    prompt_tokens: number;
-    total_tokens: number;
-  };
+/**
+ * Thrown instead of comparing embeddings from different models, whose similarity would be meaningless
+ */
+export class EmbeddingModelMismatchError extends Error {
+  constructor(public readonly expectedModel: string, public readonly actualModel: string) {
+    super(`Embeddings from ${actualModel} cannot be compared with embeddings from ${expectedModel}`);
+    this.name = 'EmbeddingModelMismatchError';
+  }
 }
 
 export class EmbeddingService {
-  private static readonly OPENAI_API_URL = 'https://api.openai.com/v1/embeddings';
-  private static readonly MAX_BATCH_SIZE = 100; // OpenAI's limit
-
   /**
    * Generate embeddings for text chunks
    */
   static async generateEmbeddings(
     chunks: TextChunk[],
-    apiKey: string
+    provider: EmbeddingProvider,
+    signal?: AbortSignal,
+    meter?: UsageMeter
   ): Promise<EmbeddedChunk[]> {
-    if (!apiKey) {
-      throw new Error('OpenAI API key is required');
-    }
-
-    const embeddedChunks: EmbeddedChunk[] = [];
-    
-    // Process in batches to respect API limits
-    for (let i = 0; i < chunks.length; i += this.MAX_BATCH_SIZE) {
-      const batch = chunks.slice(i, i + this.MAX_BATCH_SIZE);
-      const batchEmbeddings = await this.generateBatchEmbeddings(batch, apiKey);
-      embeddedChunks.push(...batchEmbeddings);
-    }
-    
-    return embeddedChunks;
+    const embeddings = await this.embedTexts(chunks.map(chunk => chunk.text), provider, signal, meter);
+    const embeddedAt = new Date();
+    const embeddingModel = EmbeddingProviders.modelId(provider);
+    return chunks.map((chunk, index) => ({
+      ...chunk,
+      embedding: embeddings[index],
+      embeddingModel,
+      embeddedAt,
+    }));
   }
 
   /**
-   * Generate embeddings for a batch of chunks
+   * Generate embeddings for plain texts, such as the sentences compared by semantic chunking. Tokens the
+   * provider bills for are recorded on the meter; cache hits cost nothing.
    */
-  private static async generateBatchEmbeddings(
-    chunks: TextChunk[],
-    apiKey: string
-  ): Promise<EmbeddedChunk[]> {
-    try {
-      const response = await fetch(this.OPENAI_API_URL, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'text-embedding-3-small',
-          input: chunks.map(chunk => chunk.text),
-        }),
+  static async embedTexts(
+    texts: string[],
+    provider: EmbeddingProvider,
+    signal?: AbortSignal,
+    meter?: UsageMeter
+  ): Promise<number[][]> {
+    // Texts this model has embedded before come from the cache; only the rest go to the provider
+    const namespace = EmbeddingProviders.modelId(provider);
+    const cached = provider.cacheable
+      ? await EmbeddingCache.getMany(namespace, texts).catch(error => {
+          console.warn('Embedding cache lookup failed:', error);
+          return texts.map(() => undefined);
+        })
+      : texts.map(() => undefined);
+    const missing = Array.from(new Set(texts.filter((_, index) => !cached[index])));
+
+    const fresh = await this.requestEmbeddings(missing, provider, signal, meter);
+    if (provider.cacheable && missing.length > 0) {
+      await EmbeddingCache.putMany(namespace, missing, fresh).catch(error => {
+        console.warn('Embedding cache update failed:', error);
       });
+    }
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(`OpenAI API error: ${response.status} - ${errorData.error?.message || 'Unknown error'}`);
-      }
+    const freshByText = new Map(missing.map((text, index) => [text, fresh[index]]));
+    return cached.map((embedding, index) => embedding || freshByText.get(texts[index])!);
+  }
 
-      const data = await response.json();
-      
-      // Map embeddings back to chunks
-      return chunks.map((chunk, index) => ({
-        ...chunk,
-        embedding: data.data[index].embedding,
-        embeddingModel: data.model,
-        embeddedAt: new Date(),
-      }));
-    } catch (error) {
-      console.error('Error generating embeddings:', error);
-      throw new Error(`Failed to generate embeddings: ${error}`);
+  /**
+   * Embed texts with the provider, paced by its token budget and retried on transient failures
+   */
+  private static async requestEmbeddings(
+    texts: string[],
+    provider: EmbeddingProvider,
+    signal?: AbortSignal,
+    meter?: UsageMeter
+  ): Promise<number[][]> {
+    const embeddings: number[][] = [];
+    const budget = provider.tokensPerMinute
+      ? TokenBudget.for(`${provider.kind}:${provider.model}`, provider.tokensPerMinute)
+      : null;
+
+    // Process in batches to respect the provider's limits
+    for (let i = 0; i < texts.length; i += provider.maxBatchSize) {
+      const batch = texts.slice(i, i + provider.maxBatchSize);
+      try {
+        await budget?.acquire(batch.reduce((sum, text) => sum + Tokenizer.count(text), 0), signal);
+        const result = await RetryPolicy.run(() => provider.embed(batch, signal), {
+          signal,
+          onRetry: (error, attempt, delayMs) => console.warn(
+            `Embedding request failed (attempt ${attempt}), retrying in ${Math.round(delayMs)}ms:`, error
+          ),
+        });
+        meter?.record(provider.model, result.promptTokens);
+        embeddings.push(...result.embeddings);
+      } catch (error) {
+        // Cancellation is not a failure; let the caller see the abort as-is
+        if (signal?.aborted) {
+          throw error;
+        }
+        console.error('Error generating embeddings:', error);
+        throw new Error(`Failed to generate embeddings: ${error}`);
+      }
     }
+    return embeddings;
   }
 
   /**
@@ -90,32 +118,12 @@ export class EmbeddingService {
    */
   static async generateEmbedding(
     text: string,
-    apiKey: string
+    provider: EmbeddingProvider,
+    signal?: AbortSignal,
+    meter?: UsageMeter
   ): Promise<number[]> {
-    try {
-      const response = await fetch(this.OPENAI_API_URL, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'text-embedding-3-small',
-          input: [text],
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(`OpenAI API error: ${response.status} - ${errorData.error?.message || 'Unknown error'}`);
-      }
-
-      const data = await response.json();
-      return data.data[0].embedding;
-    } catch (error) {
-      console.error('Error generating embedding:', error);
-      throw new Error(`Failed to generate embedding: ${error}`);
-    }
+    const [embedding] = await this.embedTexts([text], provider, signal, meter);
+    return embedding;
   }
 
   /**
@@ -141,19 +149,22 @@ export class EmbeddingService {
   }
 
   /**
-   * Find most similar chunks using cosine similarity
+   * Find most similar chunks using cosine similarity. Every chunk must have been embedded with the query's
+   * model; a chunk from another model throws EmbeddingModelMismatchError.
    */
   static findSimilarChunks(
-    queryEmbedding: number[],
+    query: { embedding: number[]; embeddingModel: string },
     embeddedChunks: EmbeddedChunk[],
     topK: number = 5
   ): Array<{ chunk: EmbeddedChunk; similarity: number }> {
     console.log(`Finding similar chunks: ${embeddedChunks.length} chunks available`);
     
-    const similarities = embeddedChunks.map(chunk => ({
-      chunk,
-      similarity: this.calculateSimilarity(queryEmbedding, chunk.embedding),
-    }));
+    const similarities = embeddedChunks.map(chunk => {
+      if (chunk.embeddingModel !== query.embeddingModel) {
+        throw new EmbeddingModelMismatchError(query.embeddingModel, chunk.embeddingModel);
+      }
+      return { chunk, similarity: this.calculateSimilarity(query.embedding, chunk.embedding) };
+    });
 
     // Log similarity scores for debugging
     const sortedSimilarities = similarities
@@ -0,0 +1,87 @@
+import JSZip from 'jszip';
+import { DocumentExtractor } from './documentExtractor';
+import { ExtractedPDF, ExtractionOptions } from './textExtractor';
+import { StructuredDocument, DocumentBlock } from './structuredDocument';
+import { HtmlExtractor } from './htmlExtractor';
+
+export class EpubExtractor implements DocumentExtractor {
+  readonly format = 'epub';
+  readonly extensions = ['epub'];
+  readonly mimeTypes = ['application/epub+zip'];
+  readonly requiresDOM = true;
+
+  /**
+   * Read the chapters listed in the EPUB spine, one logical page per chapter
+   */
+  async extract(file: File, id: string, name: string, options: ExtractionOptions = {}): Promise<ExtractedPDF> {
+    const zip = await JSZip.loadAsync(await file.arrayBuffer());
+
+    const container = await this.readXml(zip, 'META-INF/container.xml');
+    const packagePath = container.getElementsByTagNameNS('*', 'rootfile')[0]?.getAttribute('full-path');
+    if (!packagePath) {
+      throw new Error('EPUB has no package document');
+    }
+    const packageDoc = await this.readXml(zip, packagePath);
+    const baseDir = packagePath.slice(0, packagePath.lastIndexOf('/') + 1);
+
+    const manifest = new Map<string, { href: string; mediaType: string }>();
+    Array.from(packageDoc.getElementsByTagNameNS('*', 'item')).forEach(item => {
+      manifest.set(item.getAttribute('id') || '', {
+        href: item.getAttribute('href') || '',
+        mediaType: item.getAttribute('media-type') || '',
+      });
+    });
+
+    const chapters = Array.from(packageDoc.getElementsByTagNameNS('*', 'itemref'))
+      .filter(itemref => itemref.getAttribute('linear') !== 'no')
+      .map(itemref => manifest.get(itemref.getAttribute('idref') || ''))
+      .filter((item): item is { href: string; mediaType: string } => !!item && /html/.test(item.mediaType));
+
+    const blocks: DocumentBlock[] = [];
+    for (let i = 0; i < chapters.length; i++) {
+      options.signal?.throwIfAborted();
+      const path = this.resolvePath(baseDir, decodeURIComponent(chapters[i].href.split('#')[0]));
+      const markup = await zip.file(path)?.async('string');
+      if (!markup) {
+        console.warn(`EPUB chapter not found: ${path}`);
+        continue;
+      }
+
+      blocks.push(...HtmlExtractor.toBlocks(this.parseChapter(markup).body), { type: 'page-break' });
+      options.onProgress?.({ pageNumber: i + 1, totalPages: chapters.length, stage: 'text' });
+    }
+
+    return StructuredDocument.toExtractedPDF(blocks, id, name, this.format);
+  }
+
+  private async readXml(zip: JSZip, path: string): Promise<Document> {
+    const xml = await zip.file(path)?.async('string');
+    if (!xml) {
+      throw new Error(`EPUB is missing ${path}`);
+    }
+    return new DOMParser().parseFromString(xml, 'application/xml');
+  }
+
+  /**
+   * Chapters should be XHTML, but fall back to the lenient HTML parser for sloppy ones
+   */
+  private parseChapter(markup: string): Document {
+    const doc = new DOMParser().parseFromString(markup, 'application/xhtml+xml');
+    if (doc.getElementsByTagName('parsererror').length > 0 || !doc.body) {
+      return new DOMParser().parseFromString(markup, 'text/html');
+    }
+    return doc;
+  }
+
+  private resolvePath(baseDir: string, href: string): string {
+    const parts: string[] = [];
+    `${baseDir}${href}`.split('/').forEach(part => {
+      if (part === '..') {
+        parts.pop();
+      } else if (part && part !== '.') {
+        parts.push(part);
+      }
+    });
+    return parts.join('/');
+  }
+}
@@ -0,0 +1,15 @@
+import { ChunkingStrategy, ChunkingSettings } from './chunkingStrategy';
+import { PageFlow } from './pageFlow';
+import { TextSpan, TextSpans } from './textSpans';
+
+/**
+ * Back-to-back chunks of the maximum size, cut between words without regard for sentences
+ */
+export class FixedSizeChunkingStrategy implements ChunkingStrategy {
+  readonly name = 'fixed';
+  readonly label = 'Fixed size';
+
+  async chunk(flow: PageFlow, settings: ChunkingSettings): Promise<TextSpan[]> {
+    return TextSpans.windows(flow.text, 0, flow.text.length, settings.maxTokens, settings.maxTokens);
+  }
+}
@@ -0,0 +1,257 @@
+import { LayoutAnalyzer, TextLine, PositionedTextItem } from './layoutAnalyzer';
+import { PageLines } from './headerFooterDetector';
+
+export type NoteKind = 'footnote' | 'endnote';
+
+export interface Footnote {
+  marker: string; // "1", "*", "†"...; rendered as "[^1]" in the page text
+  text: string;
+  kind: NoteKind;
+  offset: number; // Character offset of the reference marker in the page text
+  notePageNumber: number; // Page the note itself is printed on
+}
+
+export interface EndnoteBody {
+  text: string;
+  pageNumber: number;
+}
+
+export interface FootnoteDetectionResult {
+  lines: TextLine[]; // Page lines with referenced note bodies removed and markers rewritten
+  notes: Map<string, string>; // Footnote bodies found on the page, by marker
+}
+
+const MARKER = /^(\d{1,3}|[*†‡§¶]{1,3})$/;
+const NOTE_START = /^(\d{1,3}|[*†‡§¶]{1,3})(?:[.)]?\s+(?=\S)|(?=\p{Lu}))/u;
+const SUPERSCRIPT_DIGITS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+const ENDNOTES_HEADING = /^(?:[\dIVX]+\.?\s+)?(notes|endnotes)\s*$/i;
+const ENDNOTES_END = /^(?:[\dIVX]+\.?\s+)?(references|bibliography|works cited|appendix|appendices|index)\s*$/i;
+
+export class FootnoteDetector {
+  private static readonly SMALL_FONT_RATIO = 0.9; // Footnote text is set smaller than the body text
+  private static readonly FOOTNOTE_ZONE = 0.5; // Footnotes sit in the lower part of the page, as a share of its height
+  private static readonly MARKER_FONT_RATIO = 0.85; // Reference markers are smaller than their line...
+  private static readonly MARKER_RAISE_RATIO = 0.15; // ...and raised above its baseline, in font sizes
+
+  /**
+   * Find note bodies at the foot of a page and rewrite the markers that reference them as "[^n]"
+   */
+  static detect(lines: TextLine[], pageHeight: number, endnoteMarkers: Set<string> = new Set()): FootnoteDetectionResult {
+    const bodyFontSize = this.bodyFontSize(lines);
+    const noteLines = this.footnoteBlock(lines, pageHeight, bodyFontSize);
+
+    // Split the block into notes, one per leading marker
+    const noteGroups: { marker: string; lines: TextLine[] }[] = [];
+    noteLines.forEach(line => {
+      const marker = NOTE_START.exec(line.text)?.[1];
+      if (marker) {
+        noteGroups.push({ marker, lines: [line] });
+      } else if (noteGroups.length > 0) {
+        noteGroups[noteGroups.length - 1].lines.push(line);
+      }
+    });
+    const pageMarkers = new Set(noteGroups.map(group => group.marker));
+
+    // Rewrite reference markers in the body text
+    const noteLineSet = new Set(noteLines);
+    const referenced = new Set<string>();
+    const rewritten = new Map<TextLine, TextLine>();
+    lines.forEach(line => {
+      if (noteLineSet.has(line)) {
+        return;
+      }
+      const updated = this.rewriteMarkers(line, marker => pageMarkers.has(marker) || endnoteMarkers.has(marker));
+      if (updated.markers.length > 0) {
+        updated.markers.forEach(marker => referenced.add(marker));
+        rewritten.set(line, updated.line);
+      }
+    });
+
+    // Notes nobody references stay in the text flow so their content is not lost
+    const notes = new Map<string, string>();
+    const removed = new Set<TextLine>();
+    noteGroups.forEach(group => {
+      if (referenced.has(group.marker) && !notes.has(group.marker)) {
+        notes.set(group.marker, this.joinLines(group.lines).replace(NOTE_START, '').trim());
+        group.lines.forEach(line => removed.add(line));
+      }
+    });
+
+    return {
+      lines: lines.filter(line => !removed.has(line)).map(line => rewritten.get(line) || line),
+      notes,
+    };
+  }
+
+  /**
+   * Read the numbered notes of a "Notes" or "Endnotes" section near the end of the document
+   */
+  static findEndnotes(pages: PageLines[]): Map<string, EndnoteBody> {
+    const endnotes = new Map<string, EndnoteBody>();
+
+    let start: { pageIndex: number; lineIndex: number } | null = null;
+    for (let pageIndex = pages.length - 1; pageIndex >= 0 && !start; pageIndex--) {
+      const lineIndex = pages[pageIndex].lines.findIndex(line => ENDNOTES_HEADING.test(line.text.trim()));
+      if (lineIndex >= 0) {
+        start = { pageIndex, lineIndex };
+      }
+    }
+    if (!start) {
+      return endnotes;
+    }
+
+    let current: { marker: string; lines: TextLine[]; pageNumber: number } | null = null;
+    const flush = () => {
+      if (current && !endnotes.has(current.marker)) {
+        endnotes.set(current.marker, {
+          text: this.joinLines(current.lines).replace(NOTE_START, '').trim(),
+          pageNumber: current.pageNumber,
+        });
+      }
+      current = null;
+    };
+
+    for (let pageIndex = start.pageIndex; pageIndex < pages.length; pageIndex++) {
+      const page = pages[pageIndex];
+      const firstLine = pageIndex === start.pageIndex ? start.lineIndex + 1 : 0;
+
+      for (const line of page.lines.slice(firstLine)) {
+        if (ENDNOTES_END.test(line.text.trim())) {
+          flush();
+          return endnotes;
+        }
+        const marker = NOTE_START.exec(line.text)?.[1];
+        if (marker && /^\d+$/.test(marker)) {
+          flush();
+          current = { marker, lines: [line], pageNumber: page.pageNumber };
+        } else if (current) {
+          current.lines.push(line);
+        }
+      }
+    }
+    flush();
+
+    return endnotes;
+  }
+
+  /**
+   * Gather the notes referenced from a composed page text, with the offsets of their markers
+   */
+  static resolve(
+    text: string,
+    pageNumber: number,
+    notes: Map<string, string>,
+    endnotes: Map<string, EndnoteBody>
+  ): Footnote[] {
+    const footnotes: Footnote[] = [];
+    const seen = new Set<string>();
+
+    for (const match of text.matchAll(/\[\^([^\]\s]{1,3})\]/g)) {
+      const marker = match[1];
+      if (seen.has(marker)) {
+        continue;
+      }
+      seen.add(marker);
+
+      const footnote = notes.get(marker);
+      const endnote = endnotes.get(marker);
+      if (footnote !== undefined) {
+        footnotes.push({ marker, text: footnote, kind: 'footnote', offset: match.index!, notePageNumber: pageNumber });
+      } else if (endnote) {
+        footnotes.push({ marker, text: endnote.text, kind: 'endnote', offset: match.index!, notePageNumber: endnote.pageNumber });
+      }
+    }
+
+    return footnotes;
+  }
+
+  /**
+   * Small-font lines at the bottom of the page, starting at the first one that opens with a note marker
+   */
+  private static footnoteBlock(lines: TextLine[], pageHeight: number, bodyFontSize: number): TextLine[] {
+    const topDown = [...lines].sort((a, b) => b.baseline - a.baseline);
+    const isNoteLine = (line: TextLine) =>
+      line.fontSize <= bodyFontSize * this.SMALL_FONT_RATIO && line.bbox.y + line.bbox.height <= pageHeight * this.FOOTNOTE_ZONE;
+
+    let first = topDown.length;
+    while (first > 0 && isNoteLine(topDown[first - 1])) {
+      first--;
+    }
+
+    const block = topDown.slice(first);
+    const start = block.findIndex(line => NOTE_START.test(line.text));
+    return start >= 0 ? block.slice(start) : [];
+  }
+
+  /**
+   * Replace superscript reference markers in a line with "[^n]" when they resolve to a note
+   */
+  private static rewriteMarkers(line: TextLine, resolves: (marker: string) => boolean): { line: TextLine; markers: string[] } {
+    const markers: string[] = [];
+    const baseline = this.textBaseline(line);
+
+    const items = line.items.map((item, index): PositionedTextItem => {
+      const text = item.text.trim();
+      const raised = item.baseline - baseline >= line.fontSize * this.MARKER_RAISE_RATIO;
+      const small = item.fontSize <= line.fontSize * this.MARKER_FONT_RATIO;
+
+      if (index > 0 && MARKER.test(text) && raised && small && resolves(text)) {
+        markers.push(text);
+        return { ...item, text: `[^${text}]` };
+      }
+
+      // Some fonts encode markers as Unicode superscript digits instead of raised text
+      const withSuperscripts = item.text.replace(/(?<=[\p{L}\p{P}])([⁰¹²³⁴⁵⁶⁷⁸⁹]{1,3})/gu, digits => {
+        const marker = [...digits].map(digit => SUPERSCRIPT_DIGITS.indexOf(digit)).join('');
+        if (!resolves(marker)) {
+          return digits;
+        }
+        markers.push(marker);
+        return `[^${marker}]`;
+      });
+      return withSuperscripts === item.text ? item : { ...item, text: withSuperscripts };
+    });
+
+    return { line: markers.length > 0 ? LayoutAnalyzer.createLine(items) : line, markers };
+  }
+
+  /**
+   * Baseline of the line's regular-size text, which superscripts sit above
+   */
+  private static textBaseline(line: TextLine): number {
+    const regular = line.items.filter(item => Math.abs(item.fontSize - line.fontSize) <= line.fontSize * 0.1);
+    return regular.length > 0 ? Math.min(...regular.map(item => item.baseline)) : line.baseline;
+  }
+
+  /**
+   * Font size covering the most characters on the page
+   */
+  private static bodyFontSize(lines: TextLine[]): number {
+    const weights = new Map<number, number>();
+    lines.forEach(line => {
+      const size = Math.round(line.fontSize * 10) / 10;
+      weights.set(size, (weights.get(size) || 0) + line.text.length);
+    });
+
+    let bodySize = 0;
+    let maxWeight = -1;
+    weights.forEach((weight, size) => {
+      if (weight > maxWeight) {
+        bodySize = size;
+        maxWeight = weight;
+      }
+    });
+    return bodySize;
+  }
+
+  private static joinLines(lines: TextLine[]): string {
+    return lines.reduce((joined, line) => {
+      if (!joined) {
+        return line.text;
+      }
+      return /\p{Ll}-$/u.test(joined) && /^\p{Ll}/u.test(line.text)
+        ? joined.slice(0, -1) + line.text
+        : `${joined} ${line.text}`;
+    }, '');
+  }
+}
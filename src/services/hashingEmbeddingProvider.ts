@@ -0,0 +1,57 @@
+import { EmbeddingProvider, EmbeddingProviderConfig, EmbeddingBatch } from './embeddingProvider';
+
+/**
+ * Deterministic embeddings by feature hashing: every word and word pair adds to a signed bucket of the
+ * vector. Texts sharing vocabulary come out similar, which is enough for tests and offline demos; it
+ * knows nothing of meaning or synonyms.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  static readonly DEFAULT_MODEL = 'feature-hashing';
+  private static readonly DEFAULT_DIMENSIONS = 384;
+
+  readonly kind = 'hashing';
+  readonly model: string;
+  readonly dimensions: number;
+  readonly maxBatchSize = 1000;
+  readonly cacheable = false; // Hashing is cheaper than a lookup
+
+  constructor(config: EmbeddingProviderConfig) {
+    this.model = config.model || HashingEmbeddingProvider.DEFAULT_MODEL;
+    this.dimensions = Math.max(1, config.dimensions ?? HashingEmbeddingProvider.DEFAULT_DIMENSIONS);
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<EmbeddingBatch> {
+    signal?.throwIfAborted();
+    // Nothing is billed, and counting tokens would cost more than the hashing
+    return { embeddings: texts.map(text => this.embedText(text)), promptTokens: 0 };
+  }
+
+  private embedText(text: string): number[] {
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    const features = [...words, ...words.slice(1).map((word, index) => `${words[index]} ${word}`)];
+
+    const counts = new Map<number, number>();
+    features.forEach(feature => {
+      const hash = HashingEmbeddingProvider.fnv1a(feature);
+      // The top bit picks the sign, so collisions cancel out on average instead of piling up
+      const bucket = (hash & 0x7fffffff) % this.dimensions;
+      counts.set(bucket, (counts.get(bucket) || 0) + (hash & 0x80000000 ? -1 : 1));
+    });
+
+    // Damp repeated words, then scale to unit length so cosine similarity is a plain dot product
+    const vector = new Array<number>(this.dimensions).fill(0);
+    counts.forEach((count, bucket) => {
+      vector[bucket] = Math.sign(count) * Math.log1p(Math.abs(count));
+    });
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+
+  private static fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
@@ -0,0 +1,210 @@
+import { TextLine, BoundingBox, PositionedTextItem } from './layoutAnalyzer';
+
+export type RunningTextKind = 'header' | 'footer' | 'page-number' | 'banner';
+
+export interface RemovedText {
+  text: string;
+  pageNumber: number;
+  kind: RunningTextKind;
+  bbox: BoundingBox;
+  items: PositionedTextItem[]; // The line's text items, so it can be put back
+  pageSize: { width: number; height: number }; // Lets a page that held nothing else be laid out again
+}
+
+export interface PageLines {
+  pageNumber: number;
+  width: number;
+  height: number;
+  lines: TextLine[];
+}
+
+export interface RunningTextResult {
+  removed: RemovedText[];
+  keptLines: Map<number, TextLine[]>; // pageNumber -> lines left after stripping
+}
+
+interface Candidate {
+  page: PageLines;
+  line: TextLine;
+  band: 'top' | 'bottom' | 'body';
+}
+
+export class HeaderFooterDetector {
+  private static readonly MARGIN_RATIO = 0.12; // Share of the page height treated as header/footer margin
+  private static readonly POSITION_TOLERANCE = 4; // Baseline drift allowed between pages, in points
+  private static readonly MIN_REPEATS = 3;
+  private static readonly MARGIN_REPEAT_RATIO = 0.25; // Share of pages a margin line must appear on
+  private static readonly BODY_REPEAT_RATIO = 0.5; // Share of pages a line outside the margins must appear on
+
+  private static readonly PAGE_NUMBER_PATTERNS = [
+    /^(page\s+)?\d+(\s*(of|\/)\s*\d+)?$/i,
+    /^[-–—]\s*\d+\s*[-–—]$/,
+  ];
+  private static readonly ROMAN_NUMERAL = /^(?=[ivx])x{0,3}(ix|iv|v?i{0,3})$/i;
+  private static readonly BANNER_PATTERN = /confidential|privileged|proprietary|draft|do not (copy|distribute)|work product/i;
+
+  /**
+   * Find running heads, footers, page numbers and banners that repeat across pages
+   */
+  static detect(pages: PageLines[]): RunningTextResult {
+    const candidates = pages.flatMap(page => page.lines.map(line => ({
+      page,
+      line,
+      band: this.bandOf(line, page.height),
+    } as Candidate)));
+
+    const toRemove = new Map<TextLine, RunningTextKind>();
+
+    // Page numbers differ on every page, so they are recognized by shape alone
+    const marginLines = candidates.filter(candidate => candidate.band !== 'body');
+    marginLines
+      .filter(candidate => this.isPageNumber(candidate.line.text))
+      .forEach(candidate => toRemove.set(candidate.line, 'page-number'));
+    this.romanPageNumbers(marginLines).forEach(candidate => toRemove.set(candidate.line, 'page-number'));
+
+    this.groupRepeats(candidates).forEach(group => {
+      const pageCount = new Set(group.map(candidate => candidate.page.pageNumber)).size;
+      const band = group[0].band;
+      const ratio = band === 'body' ? this.BODY_REPEAT_RATIO : this.MARGIN_REPEAT_RATIO;
+
+      if (pageCount < Math.max(this.MIN_REPEATS, Math.ceil(pages.length * ratio))) {
+        return;
+      }
+
+      group.forEach(candidate => {
+        if (!toRemove.has(candidate.line)) {
+          toRemove.set(candidate.line, this.classify(candidate));
+        }
+      });
+    });
+
+    const removed: RemovedText[] = [];
+    const keptLines = new Map<number, TextLine[]>();
+
+    pages.forEach(page => {
+      const kept: TextLine[] = [];
+      page.lines.forEach(line => {
+        const kind = toRemove.get(line);
+        if (kind) {
+          removed.push({
+            text: line.text,
+            pageNumber: page.pageNumber,
+            kind,
+            bbox: line.bbox,
+            items: line.items,
+            pageSize: { width: page.width, height: page.height },
+          });
+        } else {
+          kept.push(line);
+        }
+      });
+      keptLines.set(page.pageNumber, kept);
+    });
+
+    return { removed, keptLines };
+  }
+
+  /**
+   * Roman numerals that count up with the pages, as in front matter. A lone "I" or "v" in the margin is as
+   * likely to be text, so a numeral only counts when enough pages agree on how the numbering is offset.
+   */
+  private static romanPageNumbers(candidates: Candidate[]): Candidate[] {
+    const byOffset = new Map<number, Candidate[]>();
+    candidates.forEach(candidate => {
+      const value = this.romanValue(candidate.line.text.trim());
+      if (value !== null) {
+        const offset = value - candidate.page.pageNumber;
+        byOffset.set(offset, [...(byOffset.get(offset) || []), candidate]);
+      }
+    });
+
+    return Array.from(byOffset.values())
+      .filter(sequence => new Set(sequence.map(candidate => candidate.page.pageNumber)).size >= this.MIN_REPEATS)
+      .flat();
+  }
+
+  private static romanValue(text: string): number | null {
+    if (!this.ROMAN_NUMERAL.test(text)) {
+      return null;
+    }
+    const digits: Record<string, number> = { i: 1, v: 5, x: 10 };
+    const values = Array.from(text.toLowerCase(), digit => digits[digit]);
+    // A smaller digit before a larger one is subtracted: "iv", "ix"
+    return values.reduce((sum, value, index) => sum + (value < (values[index + 1] ?? 0) ? -value : value), 0);
+  }
+
+  /**
+   * Group lines with the same normalized text at roughly the same position
+   */
+  private static groupRepeats(candidates: Candidate[]): Candidate[][] {
+    const byText = new Map<string, Candidate[]>();
+
+    candidates.forEach(candidate => {
+      const key = `${candidate.band}:${this.normalize(candidate.line.text, candidate.band !== 'body')}`;
+      if (!byText.has(key)) {
+        byText.set(key, []);
+      }
+      byText.get(key)!.push(candidate);
+    });
+
+    const groups: Candidate[][] = [];
+    byText.forEach(sameText => {
+      const sorted = [...sameText].sort((a, b) => a.line.baseline - b.line.baseline);
+      let group: Candidate[] = [];
+
+      sorted.forEach(candidate => {
+        const previous = group[group.length - 1];
+        if (previous && candidate.line.baseline - previous.line.baseline > this.POSITION_TOLERANCE) {
+          groups.push(group);
+          group = [];
+        }
+        group.push(candidate);
+      });
+
+      if (group.length > 0) {
+        groups.push(group);
+      }
+    });
+
+    return groups;
+  }
+
+  /**
+   * Normalize text so running heads with changing numbers still match.
+   * Numbers are only folded in the margins, where body text never appears.
+   */
+  private static normalize(text: string, foldNumbers: boolean): string {
+    const normalized = text
+      .toLowerCase()
+      .replace(/\s+/g, ' ')
+      .trim();
+    return foldNumbers ? normalized.replace(/\d+/g, '#') : normalized;
+  }
+
+  private static bandOf(line: TextLine, pageHeight: number): Candidate['band'] {
+    const margin = pageHeight * this.MARGIN_RATIO;
+
+    if (line.bbox.y >= pageHeight - margin) {
+      return 'top';
+    }
+    if (line.bbox.y + line.bbox.height <= margin) {
+      return 'bottom';
+    }
+    return 'body';
+  }
+
+  private static classify(candidate: Candidate): RunningTextKind {
+    if (this.isPageNumber(candidate.line.text)) {
+      return 'page-number';
+    }
+    if (candidate.band === 'body' || this.BANNER_PATTERN.test(candidate.line.text)) {
+      return 'banner';
+    }
+    return candidate.band === 'top' ? 'header' : 'footer';
+  }
+
+  private static isPageNumber(text: string): boolean {
+    const trimmed = text.trim();
+    return this.PAGE_NUMBER_PATTERNS.some(pattern => pattern.test(trimmed));
+  }
+}
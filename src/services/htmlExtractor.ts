@@ -0,0 +1,120 @@
+import { DocumentExtractor } from './documentExtractor';
+import { ExtractedPDF } from './textExtractor';
+import { StructuredDocument, DocumentBlock } from './structuredDocument';
+
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'head', 'svg', 'canvas', 'iframe', 'nav', 'button', 'form']);
+const PARAGRAPH_TAGS = new Set(['p', 'li', 'dt', 'dd', 'blockquote', 'figcaption', 'caption', 'address', 'summary']);
+const BLOCK_TAGS = new Set([
+  ...PARAGRAPH_TAGS, 'div', 'section', 'article', 'main', 'aside', 'header', 'footer', 'ul', 'ol', 'dl',
+  'figure', 'details', 'hr', 'pre', 'table', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'body',
+]);
+
+export class HtmlExtractor implements DocumentExtractor {
+  readonly format = 'html';
+  readonly extensions = ['html', 'htm', 'xhtml'];
+  readonly mimeTypes = ['text/html', 'application/xhtml+xml'];
+  readonly requiresDOM = true;
+
+  async extract(file: File, id: string, name: string): Promise<ExtractedPDF> {
+    const html = await file.text();
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+
+    // Saved web pages carry site chrome around the article; prefer the main content when it is marked up
+    const root = doc.querySelector('main, article, [role="main"]') || doc.body;
+    return StructuredDocument.toExtractedPDF(HtmlExtractor.toBlocks(root), id, name, this.format);
+  }
+
+  /**
+   * Walk an HTML or XHTML element and collect headings, paragraphs and tables in document order
+   */
+  static toBlocks(root: Element | null): DocumentBlock[] {
+    const blocks: DocumentBlock[] = [];
+    if (!root) {
+      return blocks;
+    }
+
+    let inline = '';
+    const flushInline = () => {
+      const text = this.normalizeText(inline);
+      if (text) {
+        blocks.push({ type: 'paragraph', text });
+      }
+      inline = '';
+    };
+
+    const visit = (node: Node) => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        inline += node.textContent || '';
+        return;
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE) {
+        return;
+      }
+
+      const element = node as Element;
+      const tag = element.localName.toLowerCase();
+      if (SKIPPED_TAGS.has(tag) || element.getAttribute('hidden') !== null || element.getAttribute('aria-hidden') === 'true') {
+        return;
+      }
+
+      if (tag === 'br') {
+        inline += ' ';
+        return;
+      }
+      if (!BLOCK_TAGS.has(tag)) {
+        element.childNodes.forEach(visit);
+        return;
+      }
+
+      flushInline();
+      const heading = /^h([1-6])$/.exec(tag);
+      if (heading) {
+        const text = this.normalizeText(element.textContent || '');
+        if (text) {
+          blocks.push({ type: 'heading', level: Number(heading[1]), text });
+        }
+      } else if (tag === 'table') {
+        const rows = this.tableRows(element);
+        if (rows.length > 0) {
+          blocks.push({ type: 'table', rows });
+        }
+      } else if (tag === 'pre') {
+        const text = (element.textContent || '').replace(/^\n+|\s+$/g, '');
+        if (text) {
+          blocks.push({ type: 'paragraph', text });
+        }
+      } else if (PARAGRAPH_TAGS.has(tag) && !this.containsBlocks(element)) {
+        const text = this.normalizeText(element.textContent || '');
+        if (text) {
+          blocks.push({ type: 'paragraph', text });
+        }
+      } else {
+        element.childNodes.forEach(visit);
+        flushInline();
+      }
+    };
+
+    root.childNodes.forEach(visit);
+    flushInline();
+
+    return blocks;
+  }
+
+  private static tableRows(table: Element): string[][] {
+    return Array.from(table.querySelectorAll('tr'))
+      // Rows of nested tables are picked up through their own table
+      .filter(row => row.closest('table') === table)
+      .map(row => Array.from(row.children)
+        .filter(cell => ['td', 'th'].includes(cell.localName.toLowerCase()))
+        .map(cell => this.normalizeText(cell.textContent || '')))
+      .filter(cells => cells.some(Boolean));
+  }
+
+  private static containsBlocks(element: Element): boolean {
+    return Array.from(element.children).some(child => BLOCK_TAGS.has(child.localName.toLowerCase()));
+  }
+
+  private static normalizeText(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+}
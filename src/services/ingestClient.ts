@@ -0,0 +1,114 @@
+import {
+  IngestJob,
+  IngestOptions,
+  IngestResult,
+  IngestFailedError,
+  IngestWorkerRequest,
+  IngestWorkerResponse,
+} from './ingestPipeline';
+import { PasswordRequiredError } from './textExtractor';
+import { BudgetExceededError } from './usageLedger';
+
+interface PendingJob {
+  resolve: (result: IngestResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: IngestOptions['onProgress'];
+  cleanup: () => void;
+}
+
+/**
+ * Main-thread handle on the ingest worker. Jobs are multiplexed over a single worker.
+ */
+export class IngestClient {
+  private worker: Worker | null = null;
+  private jobs: Map<string, PendingJob> = new Map();
+  private nextJobId = 0;
+
+  /**
+   * Run the ingest pipeline for a document in the worker
+   */
+  ingest(job: IngestJob, options: IngestOptions = {}): Promise<IngestResult> {
+    const { signal, onProgress } = options;
+    if (signal?.aborted) {
+      return Promise.reject(new DOMException('Ingest cancelled', 'AbortError'));
+    }
+
+    const jobId = `job-${++this.nextJobId}`;
+
+    return new Promise<IngestResult>((resolve, reject) => {
+      const onAbort = () => this.post({ type: 'cancel', jobId });
+      signal?.addEventListener('abort', onAbort);
+
+      this.jobs.set(jobId, {
+        resolve,
+        reject,
+        onProgress,
+        cleanup: () => signal?.removeEventListener('abort', onAbort),
+      });
+
+      this.post({ type: 'ingest', jobId, job });
+    });
+  }
+
+  /**
+   * Stop the worker and fail any running jobs
+   */
+  terminate(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.failAll(new Error('Ingest worker terminated'));
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../workers/ingestWorker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<IngestWorkerResponse>) => this.handleMessage(event.data);
+      this.worker.onerror = (event) => {
+        console.error('Ingest worker crashed:', event);
+        this.worker?.terminate();
+        this.worker = null;
+        this.failAll(new Error(`Ingest worker crashed: ${event.message}`));
+      };
+    }
+    return this.worker;
+  }
+
+  private post(message: IngestWorkerRequest): void {
+    this.getWorker().postMessage(message);
+  }
+
+  private handleMessage(message: IngestWorkerResponse): void {
+    const job = this.jobs.get(message.jobId);
+    if (!job) {
+      return;
+    }
+
+    if (message.type === 'progress') {
+      job.onProgress?.(message.progress);
+      return;
+    }
+
+    this.jobs.delete(message.jobId);
+    job.cleanup();
+
+    if (message.type === 'done') {
+      job.resolve(message.result);
+    } else if (message.aborted && !message.checkpoint) {
+      // Cancelled while embedding, the checkpoint comes along as it does when the pipeline runs in-process
+      job.reject(new DOMException('Ingest cancelled', 'AbortError'));
+    } else if (message.passwordReason) {
+      job.reject(new PasswordRequiredError(message.passwordReason));
+    } else {
+      const budgetExceeded = message.budget && new BudgetExceededError(message.budget.budgetUsd, message.budget.spentUsd);
+      job.reject(new IngestFailedError(message.message, message.checkpoint, message.usage, budgetExceeded));
+    }
+  }
+
+  private failAll(error: Error): void {
+    this.jobs.forEach(job => {
+      job.cleanup();
+      job.reject(error);
+    });
+    this.jobs.clear();
+  }
+}
@@ -0,0 +1,219 @@
+import { ExtractedPDF, ExtractionOptions, PasswordReason } from './textExtractor';
+import { DocumentExtractors } from './documentExtractor';
+import { TextNormalizer } from './textNormalizer';
+import { TextChunker, TextChunk } from './textChunker';
+import { ChunkingStrategies, ChunkingOptions } from './chunkingStrategy';
+import { EmbeddingService, EmbeddedChunk } from './embeddingService';
+import { EmbeddingProviders, EmbeddingProvider, EmbeddingProviderConfig } from './embeddingProvider';
+import { MinHash } from './nearDuplicates';
+import { UsageMeter, UsageTotals } from './usageMeter';
+import { ModelPricing } from './modelPricing';
+import { BudgetExceededError } from './usageLedger';
+import { IngestProgress } from '../types';
+
+export interface IngestOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: IngestProgress) => void;
+}
+
+export interface IngestResult {
+  extractedPDF: ExtractedPDF;
+  embeddedChunks: EmbeddedChunk[];
+  parentChunks: TextChunk[]; // Sections the embedded chunks expand to at query time
+  usage: UsageTotals; // Tokens billed by the embedding provider
+}
+
+// Work a failed ingest got through: the chunked document and the chunks embedded so far. Handed to the
+// next attempt, it resumes from the batch that failed instead of starting over. Built from an indexed
+// document, it has the document embedded with another model without extracting or chunking it again.
+export interface IngestCheckpoint {
+  extractedPDF: ExtractedPDF;
+  chunks: TextChunk[];
+  parentChunks: TextChunk[];
+  embeddedChunks: EmbeddedChunk[]; // The first chunks, in order
+  embeddingModel: string; // Model id the embedded chunks are from
+}
+
+/**
+ * Thrown when an ingest fails after spending tokens; carries what was done so a retry can resume, what
+ * it cost, and the budget error when it stopped because the monthly budget ran out
+ */
+export class IngestFailedError extends Error {
+  constructor(
+    message: string,
+    public readonly checkpoint?: IngestCheckpoint,
+    public readonly usage: UsageTotals = {},
+    public readonly budgetExceeded?: BudgetExceededError
+  ) {
+    super(message);
+    this.name = 'IngestFailedError';
+  }
+}
+
+export interface IngestJob {
+  file: File;
+  pdfId: string;
+  pdfName: string;
+  embedding: EmbeddingProviderConfig;
+  extraction?: Omit<ExtractionOptions, 'onProgress' | 'signal'>;
+  chunking?: ChunkingOptions;
+  // Set when the document was already extracted on the main thread (formats parsed with DOMParser)
+  extractedPDF?: ExtractedPDF;
+  checkpoint?: IngestCheckpoint; // Left by an earlier attempt that failed
+  budget?: { limitUsd: number; spentUsd: number }; // The workspace's monthly budget and this month's spending so far
+}
+
+// Messages exchanged with the ingest worker
+export type IngestWorkerRequest =
+  | { type: 'ingest'; jobId: string; job: IngestJob }
+  | { type: 'cancel'; jobId: string };
+
+export type IngestWorkerResponse =
+  | { type: 'progress'; jobId: string; progress: IngestProgress }
+  | { type: 'done'; jobId: string; result: IngestResult }
+  | {
+      type: 'error';
+      jobId: string;
+      message: string;
+      aborted: boolean;
+      passwordReason?: PasswordReason;
+      checkpoint?: IngestCheckpoint;
+      usage?: UsageTotals;
+      budget?: { budgetUsd: number; spentUsd: number }; // Set when it stopped at the monthly budget
+    };
+
+export class IngestPipeline {
+  private static readonly EMBEDDING_BATCH_SIZE = 10;
+
+  /**
+   * Extract, chunk and embed a document, reporting progress for each stage
+   */
+  static async run(job: IngestJob, options: IngestOptions = {}): Promise<IngestResult> {
+    const { signal, onProgress } = options;
+    const provider = EmbeddingProviders.create(job.embedding);
+    const meter = new UsageMeter();
+
+    const resumed = this.resume(job, provider);
+    if (resumed) {
+      console.log(`Resuming ingest of ${job.pdfName} after ${resumed.embeddedChunks.length}/${resumed.chunks.length} embedded chunks`);
+      const { totalPages } = resumed.extractedPDF;
+      onProgress?.({ stage: 'extracting', completed: totalPages, total: totalPages });
+      onProgress?.({ stage: 'chunking', completed: resumed.chunks.length, total: resumed.chunks.length });
+    }
+    const { extractedPDF, chunks, parentChunks } = resumed || await this.chunk(job, provider, meter, options).catch(error => {
+      // Semantic chunking may have paid for embeddings before failing
+      throw UsageMeter.tokens(meter.snapshot()) > 0
+        ? new IngestFailedError(error instanceof Error ? error.message : String(error), undefined, meter.snapshot())
+        : error;
+    });
+
+    // Everything embedded so far survives a failure, so the next attempt picks up from the failed batch
+    const embeddedChunks = resumed ? [...resumed.embeddedChunks] : [];
+    try {
+      await this.generateEmbeddingsInBatches(chunks, embeddedChunks, provider, meter, job.budget, signal, onProgress);
+    } catch (error) {
+      throw new IngestFailedError(error instanceof Error ? error.message : String(error), {
+        extractedPDF,
+        chunks,
+        parentChunks,
+        embeddedChunks,
+        embeddingModel: EmbeddingProviders.modelId(provider),
+      }, meter.snapshot(), error instanceof BudgetExceededError ? error : undefined);
+    }
+
+    return { extractedPDF, embeddedChunks, parentChunks, usage: meter.snapshot() };
+  }
+
+  /**
+   * Extract and chunk a document
+   */
+  private static async chunk(
+    job: IngestJob,
+    provider: EmbeddingProvider,
+    meter: UsageMeter,
+    options: IngestOptions
+  ): Promise<{ extractedPDF: ExtractedPDF; chunks: TextChunk[]; parentChunks: TextChunk[] }> {
+    const { signal, onProgress } = options;
+
+    const extracted = job.extractedPDF || await DocumentExtractors.extract(job.file, job.pdfId, job.pdfName, {
+      ...job.extraction,
+      signal,
+      onProgress: progress => onProgress?.({
+        stage: 'extracting',
+        completed: progress.pageNumber,
+        total: progress.totalPages,
+      }),
+    });
+    onProgress?.({ stage: 'extracting', completed: extracted.totalPages, total: extracted.totalPages });
+
+    // Chunks and embeddings are built from cleaned-up text; offsets map back through each page's offsetMap
+    const normalized = TextNormalizer.normalizePDF(extracted);
+
+    // The settings actually used are kept with the document so it can be re-chunked the same way
+    const chunking = ChunkingStrategies.resolve(normalized, job.chunking);
+    const extractedPDF = { ...normalized, chunking };
+
+    signal?.throwIfAborted();
+    onProgress?.({ stage: 'chunking', completed: 0, total: extractedPDF.totalPages });
+    const { chunks, parents } = await TextChunker.chunkPDF(extractedPDF, chunking, {
+      embed: texts => EmbeddingService.embedTexts(texts, provider, signal, meter),
+      signal,
+    });
+    // Signatures let the vector store spot boilerplate repeated across documents
+    chunks.forEach(chunk => {
+      const signature = MinHash.signature(chunk.text);
+      if (signature.length > 0) {
+        chunk.metadata.minhash = signature;
+      }
+    });
+    onProgress?.({ stage: 'chunking', completed: chunks.length, total: chunks.length });
+
+    return { extractedPDF, chunks, parentChunks: parents };
+  }
+
+  /**
+   * The checkpoint of an earlier attempt, if it was chunked and embedded the way this job asks for
+   */
+  private static resume(job: IngestJob, provider: EmbeddingProvider): IngestCheckpoint | null {
+    const checkpoint = job.checkpoint;
+    if (!checkpoint) {
+      return null;
+    }
+    const chunking = ChunkingStrategies.resolve(checkpoint.extractedPDF, job.chunking);
+    const sameChunking = JSON.stringify(chunking) === JSON.stringify(checkpoint.extractedPDF.chunking);
+    return sameChunking && checkpoint.embeddingModel === EmbeddingProviders.modelId(provider) ? checkpoint : null;
+  }
+
+  /**
+   * Embed the chunks not yet in results, in batches, appending to results as each batch completes. Stops
+   * once the spending reaches the budget; the checkpoint lets the ingest finish when there is budget again.
+   */
+  private static async generateEmbeddingsInBatches(
+    chunks: TextChunk[],
+    results: EmbeddedChunk[],
+    provider: EmbeddingProvider,
+    meter: UsageMeter,
+    budget?: IngestJob['budget'],
+    signal?: AbortSignal,
+    onProgress?: (progress: IngestProgress) => void
+  ): Promise<void> {
+    const batchSize = this.EMBEDDING_BATCH_SIZE;
+
+    onProgress?.({ stage: 'embedding', completed: results.length, total: chunks.length });
+
+    // Pacing and retries happen per request in the embedding service
+    for (let i = results.length; i < chunks.length; i += batchSize) {
+      signal?.throwIfAborted();
+      const spentUsd = (budget?.spentUsd ?? 0) + ModelPricing.cost(meter.snapshot());
+      if (budget && spentUsd >= budget.limitUsd) {
+        throw new BudgetExceededError(budget.limitUsd, spentUsd);
+      }
+      const batch = chunks.slice(i, i + batchSize);
+      console.log(`Processing embedding batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(chunks.length / batchSize)}`);
+
+      const batchResults = await EmbeddingService.generateEmbeddings(batch, provider, signal, meter);
+      results.push(...batchResults);
+      onProgress?.({ stage: 'embedding', completed: results.length, total: chunks.length });
+    }
+  }
+}
@@ -0,0 +1,418 @@
+import type { TextItem, TextMarkedContent } from 'pdfjs-dist/types/src/display/api';
+import { ReadingOrderAnalyzer, ReadingOrderMode, LayoutRegion } from './readingOrder';
+
+/**
+ * Bounding box in PDF user space (origin at the bottom-left of the page)
+ */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PositionedTextItem {
+  index: number; // Position in the page's text content stream
+  text: string;
+  transform: number[];
+  fontName: string;
+  fontSize: number;
+  baseline: number;
+  dir: string;
+  hasEOL: boolean;
+  bbox: BoundingBox;
+}
+
+export interface TextLine {
+  items: PositionedTextItem[];
+  text: string;
+  fontSize: number;
+  baseline: number;
+  bbox: BoundingBox;
+}
+
+export interface TextParagraph {
+  lines: TextLine[];
+  text: string;
+  fontSize: number;
+  bbox: BoundingBox;
+}
+
+/**
+ * Span along one axis, such as the horizontal extent of a column
+ */
+export interface Interval {
+  start: number;
+  end: number;
+}
+
+export interface PageLayout {
+  width: number;
+  height: number;
+  readingOrder: ReadingOrderMode;
+  items: PositionedTextItem[];
+  lines: TextLine[]; // In reading order
+  regions: LayoutRegion[];
+  paragraphs: TextParagraph[];
+}
+
+export class LayoutAnalyzer {
+  private static readonly DESCENT_RATIO = 0.2; // Portion of the font size below the baseline
+  private static readonly SAME_LINE_TOLERANCE = 0.5; // Baseline drift allowed within a line, in font sizes
+  private static readonly WORD_GAP_RATIO = 0.15; // Horizontal gap that implies a space, in font sizes
+  private static readonly PARAGRAPH_GAP_RATIO = 1.7; // Baseline distance that starts a new paragraph
+  private static readonly FONT_CHANGE_RATIO = 0.2; // Relative font size change that starts a new paragraph
+
+  /**
+   * Build a page layout from the raw pdf.js text content items
+   */
+  static analyzePage(rawItems: Array<TextItem | TextMarkedContent>, view: number[], readingOrder: ReadingOrderMode = 'layout'): PageLayout {
+    const [originX, originY, right, top] = view;
+    const items = this.toPositionedItems(rawItems, originX, originY);
+    return this.layoutPage(items, this.buildLines(items), right - originX, top - originY, readingOrder);
+  }
+
+  /**
+   * Build a page layout from lines that have already been grouped (and possibly filtered)
+   */
+  static layoutPage(
+    items: PositionedTextItem[],
+    streamLines: TextLine[],
+    width: number,
+    height: number,
+    readingOrder: ReadingOrderMode = 'layout'
+  ): PageLayout {
+    const regions = readingOrder === 'raw'
+      ? ReadingOrderAnalyzer.rawRegions(streamLines)
+      : ReadingOrderAnalyzer.order(streamLines, width);
+
+    // Paragraphs never span regions, so columns and sidebars stay separate
+    const paragraphs = regions.flatMap(region => this.buildParagraphs(region.lines));
+
+    return {
+      width,
+      height,
+      readingOrder,
+      items,
+      lines: regions.flatMap(region => region.lines),
+      regions,
+      paragraphs,
+    };
+  }
+
+  /**
+   * Convert pdf.js text items into items with font size and bounding box
+   */
+  static toPositionedItems(
+    rawItems: Array<TextItem | TextMarkedContent>,
+    originX: number = 0,
+    originY: number = 0
+  ): PositionedTextItem[] {
+    const items: PositionedTextItem[] = [];
+
+    rawItems.forEach((item, index) => {
+      // Skip marked-content entries, which carry no text
+      if (!('str' in item)) {
+        return;
+      }
+
+      const transform: number[] = item.transform;
+      const fontSize = Math.hypot(transform[2], transform[3]) || item.height || 0;
+      const baseline = transform[5] - originY;
+      const descent = fontSize * this.DESCENT_RATIO;
+
+      items.push({
+        index,
+        text: item.str,
+        transform,
+        fontName: item.fontName,
+        fontSize,
+        baseline,
+        dir: item.dir,
+        hasEOL: item.hasEOL,
+        bbox: {
+          x: transform[4] - originX,
+          y: baseline - descent,
+          width: item.width,
+          height: item.height || fontSize,
+        },
+      });
+    });
+
+    return items;
+  }
+
+  /**
+   * Group items into lines, following the content stream order
+   */
+  static buildLines(items: PositionedTextItem[]): TextLine[] {
+    const lines: TextLine[] = [];
+    let current: PositionedTextItem[] = [];
+
+    items.forEach(item => {
+      const previous = current[current.length - 1];
+
+      if (previous && !previous.hasEOL && this.continuesLine(previous, item)) {
+        current.push(item);
+        return;
+      }
+
+      if (current.length > 0) {
+        lines.push(this.createLine(current));
+      }
+      current = [item];
+    });
+
+    if (current.length > 0) {
+      lines.push(this.createLine(current));
+    }
+
+    // Lines made only of whitespace carry no layout information
+    return lines.filter(line => line.text.trim().length > 0);
+  }
+
+  /**
+   * Group consecutive lines into paragraphs using spacing and font size
+   */
+  static buildParagraphs(lines: TextLine[]): TextParagraph[] {
+    const paragraphs: TextParagraph[] = [];
+    let current: TextLine[] = [];
+
+    lines.forEach(line => {
+      const previous = current[current.length - 1];
+
+      if (previous && this.continuesParagraph(previous, line)) {
+        current.push(line);
+        return;
+      }
+
+      if (current.length > 0) {
+        paragraphs.push(this.createParagraph(current));
+      }
+      current = [line];
+    });
+
+    if (current.length > 0) {
+      paragraphs.push(this.createParagraph(current));
+    }
+
+    return paragraphs;
+  }
+
+  /**
+   * Compose the plain text of a page from its paragraphs
+   */
+  static composeText(paragraphs: TextParagraph[]): string {
+    return paragraphs.map(paragraph => paragraph.text).join('\n\n');
+  }
+
+  /**
+   * Character offset in the composed text of the first paragraph at or below a y coordinate
+   */
+  static offsetAtY(paragraphs: TextParagraph[], y: number, tolerance: number = 2): number | null {
+    // Paragraphs are joined with blank lines, so their offsets follow from their lengths
+    let offset = 0;
+    for (const paragraph of paragraphs) {
+      if (paragraph.bbox.y + paragraph.bbox.height <= y + tolerance) {
+        return offset;
+      }
+      offset += paragraph.text.length + 2;
+    }
+    return null;
+  }
+
+  /**
+   * Box around the lines that a character range of the composed text falls on
+   */
+  static boxForRange(paragraphs: TextParagraph[], start: number, end: number): BoundingBox | null {
+    const boxes: BoundingBox[] = [];
+    let offset = 0;
+
+    paragraphs.forEach(paragraph => {
+      paragraph.lines.forEach(line => {
+        const lineEnd = offset + line.text.length;
+        if (lineEnd > start && offset < end) {
+          boxes.push(line.bbox);
+        }
+        offset = lineEnd + 1; // Lines are joined with newlines
+      });
+      offset += 1; // Paragraphs are joined with blank lines
+    });
+
+    return boxes.length > 0 ? this.unionBoxes(boxes) : null;
+  }
+
+  /**
+   * Where each text item lies in the composed text, following the spacing and trimming of createLine
+   */
+  static itemRanges(paragraphs: TextParagraph[]): Array<{ item: PositionedTextItem; line: TextLine; start: number; end: number }> {
+    const ranges: Array<{ item: PositionedTextItem; line: TextLine; start: number; end: number }> = [];
+    let offset = 0;
+
+    paragraphs.forEach(paragraph => {
+      paragraph.lines.forEach(line => {
+        let text = '';
+        const lineRanges = line.items.map((item, index) => {
+          const previous = line.items[index - 1];
+          if (previous && this.needsSpace(previous, item, text)) {
+            text += ' ';
+          }
+          const start = text.length;
+          text += item.text;
+          return { item, start, end: text.length };
+        });
+
+        // The line text is trimmed, which shifts every item by the leading whitespace
+        const leading = text.length - text.trimStart().length;
+        lineRanges.forEach(range => {
+          const start = Math.min(Math.max(range.start - leading, 0), line.text.length);
+          const end = Math.min(Math.max(range.end - leading, 0), line.text.length);
+          if (start < end) {
+            ranges.push({ item: range.item, line, start: offset + start, end: offset + end });
+          }
+        });
+        offset += line.text.length + 1; // Lines are joined with newlines
+      });
+      offset += 1; // Paragraphs are joined with blank lines
+    });
+
+    return ranges;
+  }
+
+  /**
+   * Merge overlapping intervals, returning them sorted
+   */
+  static mergeIntervals(intervals: Interval[]): Interval[] {
+    const sorted = [...intervals].sort((a, b) => a.start - b.start);
+    const merged: Interval[] = [];
+
+    sorted.forEach(interval => {
+      const last = merged[merged.length - 1];
+      if (last && interval.start <= last.end) {
+        last.end = Math.max(last.end, interval.end);
+      } else {
+        merged.push({ ...interval });
+      }
+    });
+
+    return merged;
+  }
+
+  /**
+   * Smallest box containing all the given boxes
+   */
+  static unionBoxes(boxes: BoundingBox[]): BoundingBox {
+    if (boxes.length === 0) {
+      return { x: 0, y: 0, width: 0, height: 0 };
+    }
+
+    const left = Math.min(...boxes.map(box => box.x));
+    const bottom = Math.min(...boxes.map(box => box.y));
+    const right = Math.max(...boxes.map(box => box.x + box.width));
+    const top = Math.max(...boxes.map(box => box.y + box.height));
+
+    return { x: left, y: bottom, width: right - left, height: top - bottom };
+  }
+
+  /**
+   * Check whether an item continues the line of the previous item
+   */
+  private static continuesLine(previous: PositionedTextItem, item: PositionedTextItem): boolean {
+    const fontSize = Math.max(previous.fontSize, item.fontSize, 1);
+    const sameBaseline = Math.abs(previous.baseline - item.baseline) <= fontSize * this.SAME_LINE_TOLERANCE;
+    // A jump back to the left means the stream has moved on to another line
+    const movesForward = item.bbox.x >= previous.bbox.x + previous.bbox.width - fontSize;
+
+    return sameBaseline && movesForward;
+  }
+
+  /**
+   * Check whether a line continues the paragraph of the previous line
+   */
+  private static continuesParagraph(previous: TextLine, line: TextLine): boolean {
+    const fontSize = Math.max(previous.fontSize, line.fontSize, 1);
+    const baselineGap = previous.baseline - line.baseline;
+
+    // Lines above the previous one belong to a different block
+    if (baselineGap <= 0) {
+      return false;
+    }
+
+    if (baselineGap > fontSize * this.PARAGRAPH_GAP_RATIO) {
+      return false;
+    }
+
+    const fontChange = Math.abs(previous.fontSize - line.fontSize) / fontSize;
+    return fontChange <= this.FONT_CHANGE_RATIO;
+  }
+
+  /**
+   * Create a line from its items, inserting spaces at word gaps
+   */
+  static createLine(items: PositionedTextItem[]): TextLine {
+    let text = '';
+
+    items.forEach((item, index) => {
+      const previous = items[index - 1];
+      if (previous && this.needsSpace(previous, item, text)) {
+        text += ' ';
+      }
+      text += item.text;
+    });
+
+    return {
+      items,
+      text: text.trim(),
+      fontSize: this.dominantFontSize(items),
+      baseline: items[0].baseline,
+      bbox: this.unionBoxes(items.map(item => item.bbox)),
+    };
+  }
+
+  /**
+   * Create a paragraph from its lines
+   */
+  private static createParagraph(lines: TextLine[]): TextParagraph {
+    return {
+      lines,
+      text: lines.map(line => line.text).join('\n'),
+      fontSize: this.dominantFontSize(lines.flatMap(line => line.items)),
+      bbox: this.unionBoxes(lines.map(line => line.bbox)),
+    };
+  }
+
+  /**
+   * Check whether a space must be inserted between two items
+   */
+  private static needsSpace(previous: PositionedTextItem, item: PositionedTextItem, textSoFar: string): boolean {
+    if (/\s$/.test(textSoFar) || /^\s/.test(item.text)) {
+      return false;
+    }
+
+    const gap = item.bbox.x - (previous.bbox.x + previous.bbox.width);
+    return gap > Math.max(previous.fontSize, item.fontSize) * this.WORD_GAP_RATIO;
+  }
+
+  /**
+   * Font size covering the most characters
+   */
+  private static dominantFontSize(items: PositionedTextItem[]): number {
+    const weights = new Map<number, number>();
+
+    items.forEach(item => {
+      const size = Math.round(item.fontSize * 10) / 10;
+      weights.set(size, (weights.get(size) || 0) + item.text.length);
+    });
+
+    let dominant = 0;
+    let maxWeight = -1;
+    weights.forEach((weight, size) => {
+      if (weight > maxWeight) {
+        dominant = size;
+        maxWeight = weight;
+      }
+    });
+
+    return dominant;
+  }
+}
@@ -0,0 +1,128 @@
+import { DocumentExtractor } from './documentExtractor';
+import { ExtractedPDF } from './textExtractor';
+import { StructuredDocument, DocumentBlock } from './structuredDocument';
+
+const FENCE = /^\s{0,3}(```|~~~)/;
+const ATX_HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const SETEXT_UNDERLINE = /^\s{0,3}(=+|-+)\s*$/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+export class MarkdownExtractor implements DocumentExtractor {
+  readonly format = 'markdown';
+  readonly extensions = ['md', 'markdown', 'mdown'];
+  readonly mimeTypes = ['text/markdown', 'text/x-markdown'];
+  readonly requiresDOM = false;
+
+  /**
+   * Parse headings, paragraphs, code blocks and pipe tables; sections become logical pages
+   */
+  async extract(file: File, id: string, name: string): Promise<ExtractedPDF> {
+    const markdown = (await file.text()).replace(/\r\n?/g, '\n');
+    return StructuredDocument.toExtractedPDF(this.toBlocks(markdown), id, name, this.format);
+  }
+
+  private toBlocks(markdown: string): DocumentBlock[] {
+    const lines = this.stripFrontMatter(markdown.split('\n'));
+    const blocks: DocumentBlock[] = [];
+    let paragraph: string[] = [];
+
+    const flush = () => {
+      const text = this.stripInline(paragraph.join(' ')).trim();
+      if (text) {
+        blocks.push({ type: 'paragraph', text });
+      }
+      paragraph = [];
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+
+      const fence = FENCE.exec(line);
+      if (fence) {
+        flush();
+        const code: string[] = [];
+        while (++i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+          code.push(lines[i]);
+        }
+        if (code.some(codeLine => codeLine.trim())) {
+          blocks.push({ type: 'paragraph', text: code.join('\n') });
+        }
+        continue;
+      }
+
+      const heading = ATX_HEADING.exec(line);
+      if (heading) {
+        flush();
+        blocks.push({ type: 'heading', level: heading[1].length, text: this.stripInline(heading[2]) });
+        continue;
+      }
+
+      // "Title\n=====" style headings underline the paragraph above them
+      const underline = SETEXT_UNDERLINE.exec(line);
+      if (underline && paragraph.length > 0) {
+        const text = this.stripInline(paragraph.join(' ')).trim();
+        paragraph = [];
+        blocks.push({ type: 'heading', level: underline[1].startsWith('=') ? 1 : 2, text });
+        continue;
+      }
+
+      if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+        flush();
+        const rows = [this.tableCells(line)];
+        i++;
+        while (i + 1 < lines.length && lines[i + 1].includes('|') && lines[i + 1].trim()) {
+          rows.push(this.tableCells(lines[++i]));
+        }
+        blocks.push({ type: 'table', rows });
+        continue;
+      }
+
+      if (!line.trim() || underline) {
+        flush();
+        continue;
+      }
+
+      if (LIST_ITEM.test(line)) {
+        flush();
+        paragraph.push(line.replace(LIST_ITEM, ''));
+        continue;
+      }
+
+      paragraph.push(line.trim().replace(/^>\s?/, ''));
+    }
+    flush();
+
+    return blocks;
+  }
+
+  private stripFrontMatter(lines: string[]): string[] {
+    if (lines[0]?.trim() !== '---') {
+      return lines;
+    }
+    const end = lines.indexOf('---', 1);
+    return end > 0 ? lines.slice(end + 1) : lines;
+  }
+
+  private tableCells(line: string): string[] {
+    return line.trim().replace(/^\|/, '').replace(/\|$/, '')
+      .split(/(?<!\\)\|/)
+      .map(cell => this.stripInline(cell.replace(/\\\|/g, '|')).trim());
+  }
+
+  /**
+   * Drop inline markup so the text reads (and embeds) like prose
+   */
+  private stripInline(text: string): string {
+    return text
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+      .replace(/<[^>]+>/g, '')
+      .replace(/`([^`]+)`/g, '$1')
+      .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '$2')
+      .replace(/(^|[^\w*])\*(?=\S)(.+?)(?<=\S)\*/g, '$1$2')
+      .replace(/(^|\W)_(?=\S)(.+?)(?<=\S)_(?=\W|$)/g, '$1$2')
+      .replace(/~~(.+?)~~/g, '$1');
+  }
+}
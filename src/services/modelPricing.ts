@@ -0,0 +1,46 @@
+import { ModelUsage, UsageTotals } from './usageMeter';
+
+// USD per million tokens, from OpenAI's published prices; models run locally cost nothing
+const PRICES: Record<string, { input: number; output: number }> = {
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+  'text-embedding-ada-002': { input: 0.10, output: 0 },
+  'gpt-3.5-turbo': { input: 0.50, output: 1.50 },
+  'gpt-4o-mini': { input: 0.15, output: 0.60 },
+  'gpt-4o': { input: 2.50, output: 10.00 },
+  'gpt-4-turbo': { input: 10.00, output: 30.00 },
+};
+
+/**
+ * Estimated cost of token usage
+ */
+export class ModelPricing {
+  /**
+   * Price of a model, also for dated snapshots such as "gpt-3.5-turbo-0125"; undefined for unpriced models
+   */
+  static priceOf(model: string): { input: number; output: number } | undefined {
+    // Longest name first, so "gpt-4o-mini-2024-07-18" is not priced as "gpt-4o"
+    const name = Object.keys(PRICES)
+      .sort((a, b) => b.length - a.length)
+      .find(candidate => model === candidate || model.startsWith(`${candidate}-`));
+    return name ? PRICES[name] : undefined;
+  }
+
+  static costOf(model: string, usage: ModelUsage): number {
+    const price = this.priceOf(model);
+    return price
+      ? (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000
+      : 0;
+  }
+
+  static cost(totals: UsageTotals = {}): number {
+    return Object.entries(totals).reduce((sum, [model, usage]) => sum + this.costOf(model, usage), 0);
+  }
+
+  /**
+   * Dollars for display; small amounts keep enough digits to be told apart from zero
+   */
+  static format(usd: number): string {
+    return usd > 0 && usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+  }
+}
@@ -0,0 +1,174 @@
+// Words per shingle; long enough that unrelated text rarely shares shingles
+const SHINGLE_WORDS = 5;
+const NUM_HASHES = 64;
+// Locality-sensitive hashing: chunks that agree on every row of some band are compared
+const BANDS = 16;
+const ROWS_PER_BAND = NUM_HASHES / BANDS;
+
+/**
+ * MinHash signatures of chunk text: the share of equal positions in two signatures estimates how much
+ * of their word shingles the texts have in common
+ */
+export class MinHash {
+  static readonly DUPLICATE_THRESHOLD = 0.8; // Estimated Jaccard similarity at which chunks count as the same text
+
+  // One seed per hash function, fixed so signatures computed in different sessions stay comparable
+  private static readonly SEEDS = Array.from({ length: NUM_HASHES }, (_, index) => MinHash.mix((index + 1) * 0x9e3779b9));
+
+  /**
+   * Empty for text without letters or digits, which has nothing to compare
+   */
+  static signature(text: string): number[] {
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    if (words.length === 0) {
+      return [];
+    }
+    const shingles = new Set<string>();
+    for (let i = 0; i + SHINGLE_WORDS <= words.length; i++) {
+      shingles.add(words.slice(i, i + SHINGLE_WORDS).join(' '));
+    }
+    if (shingles.size === 0) {
+      shingles.add(words.join(' '));
+    }
+
+    const signature = new Array<number>(NUM_HASHES).fill(0xffffffff);
+    shingles.forEach(shingle => {
+      const hash = this.fnv1a(shingle);
+      this.SEEDS.forEach((seed, index) => {
+        const value = this.mix(hash ^ seed);
+        if (value < signature[index]) {
+          signature[index] = value;
+        }
+      });
+    });
+    return signature;
+  }
+
+  static similarity(a: number[], b: number[]): number {
+    if (a.length !== b.length || a.length === 0) {
+      return 0;
+    }
+    let equal = 0;
+    a.forEach((value, index) => {
+      if (value === b[index]) {
+        equal++;
+      }
+    });
+    return equal / a.length;
+  }
+
+  /**
+   * Keys of the LSH buckets a signature falls into
+   */
+  static bandKeys(signature: number[]): string[] {
+    return Array.from({ length: BANDS }, (_, band) =>
+      `${band}:${signature.slice(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND).join(',')}`
+    );
+  }
+
+  // murmur3 finalizer: spreads the bits of a 32-bit value
+  private static mix(value: number): number {
+    let h = value >>> 0;
+    h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+    h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+    return (h ^ (h >>> 16)) >>> 0;
+  }
+
+  private static fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
+
+/**
+ * Groups chunks whose text is nearly the same, within and across documents. The first chunk added to a
+ * group is its canonical chunk; the others are further occurrences of it.
+ */
+export class DuplicateIndex {
+  private signatures: Map<string, number[]> = new Map();
+  private buckets: Map<string, Set<string>> = new Map(); // band key -> chunk ids
+  private groups: Map<string, string[]> = new Map(); // group key -> chunk ids, canonical first
+  private groupOf: Map<string, string> = new Map(); // chunk id -> group key
+
+  add(chunkId: string, signature: number[]): void {
+    this.remove(chunkId);
+    if (signature.length === 0) {
+      return;
+    }
+    this.signatures.set(chunkId, signature);
+
+    let match: string | undefined;
+    MinHash.bandKeys(signature).forEach(key => {
+      const bucket = this.buckets.get(key) || new Set<string>();
+      if (!match) {
+        match = Array.from(bucket).find(candidate =>
+          MinHash.similarity(signature, this.signatures.get(candidate)!) >= MinHash.DUPLICATE_THRESHOLD
+        );
+      }
+      bucket.add(chunkId);
+      this.buckets.set(key, bucket);
+    });
+
+    const groupKey = match ? this.groupOf.get(match)! : chunkId;
+    this.groups.set(groupKey, [...(this.groups.get(groupKey) || []), chunkId]);
+    this.groupOf.set(chunkId, groupKey);
+  }
+
+  remove(chunkId: string): void {
+    const signature = this.signatures.get(chunkId);
+    if (!signature) {
+      return;
+    }
+    MinHash.bandKeys(signature).forEach(key => {
+      const bucket = this.buckets.get(key);
+      bucket?.delete(chunkId);
+      if (bucket?.size === 0) {
+        this.buckets.delete(key);
+      }
+    });
+    this.signatures.delete(chunkId);
+
+    const groupKey = this.groupOf.get(chunkId)!;
+    const members = this.groups.get(groupKey)!.filter(member => member !== chunkId);
+    this.groups.delete(groupKey);
+    this.groupOf.delete(chunkId);
+    // When the canonical chunk goes, the next occurrence takes its place and the group is keyed by it
+    if (members.length > 0) {
+      this.groups.set(members[0], members);
+      members.forEach(member => this.groupOf.set(member, members[0]));
+    }
+  }
+
+  /**
+   * All chunks in the same group as a chunk, canonical first; just the chunk itself when it has no duplicates
+   */
+  occurrences(chunkId: string): string[] {
+    const groupKey = this.groupOf.get(chunkId);
+    return groupKey ? this.groups.get(groupKey)! : [chunkId];
+  }
+
+  groupKey(chunkId: string): string {
+    return this.groupOf.get(chunkId) || chunkId;
+  }
+
+  /**
+   * Number of chunks that duplicate another chunk
+   */
+  duplicateCount(): number {
+    let count = 0;
+    this.groups.forEach(members => {
+      count += members.length - 1;
+    });
+    return count;
+  }
+
+  clear(): void {
+    this.signatures.clear();
+    this.buckets.clear();
+    this.groups.clear();
+    this.groupOf.clear();
+  }
+}
@@ -0,0 +1,159 @@
+import type Tesseract from 'tesseract.js';
+import type { PDFPageProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+// Engine, worker script and language data are bundled so OCR runs without network access
+import ocrWorkerUrl from 'tesseract.js/dist/worker.min.js?url';
+import ocrCoreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import englishDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+
+export interface OCRPageResult {
+  items: TextItem[]; // Shaped like pdf.js text content items so the layout pipeline can consume them
+  confidence: number; // 0-1
+}
+
+/**
+ * pdf.js canvas factory for contexts without a DOM, such as Web Workers
+ */
+export class OffscreenCanvasFactory {
+  create(width: number, height: number) {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  }
+
+  reset(canvasAndContext: { canvas: OffscreenCanvas }, width: number, height: number): void {
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  }
+
+  destroy(canvasAndContext: { canvas: OffscreenCanvas | null; context: unknown }): void {
+    if (canvasAndContext.canvas) {
+      canvasAndContext.canvas.width = 0;
+      canvasAndContext.canvas.height = 0;
+    }
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+export class OCRService {
+  private static readonly RENDER_SCALE = 2; // Render at 144 DPI for better recognition
+  private static workerPromise: Promise<Tesseract.Worker> | null = null;
+  private static progressListener: ((progress: number) => void) | null = null; // Of the page being recognized
+  private static queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Render a pdf.js page to an image and recognize its text. Pages are recognized one at a time, so
+   * progress goes to the caller whose page the shared engine is working on.
+   */
+  static recognizePage(page: PDFPageProxy, onProgress?: (progress: number) => void): Promise<OCRPageResult> {
+    const recognition = this.queue.then(() => this.recognize(page, onProgress));
+    this.queue = recognition.catch(() => undefined);
+    return recognition;
+  }
+
+  private static async recognize(page: PDFPageProxy, onProgress?: (progress: number) => void): Promise<OCRPageResult> {
+    const viewport = page.getViewport({ scale: this.RENDER_SCALE });
+    const canvas = this.createCanvas(viewport.width, viewport.height);
+    const context = canvas.getContext('2d') as CanvasRenderingContext2D;
+
+    await page.render({ canvasContext: context, viewport }).promise;
+
+    const worker = await this.getWorker();
+    this.progressListener = onProgress || null;
+    try {
+      const { data } = await worker.recognize(canvas, {}, { blocks: true });
+      const pageHeight = viewport.height / this.RENDER_SCALE;
+
+      return {
+        items: this.toTextItems(data.blocks || [], pageHeight),
+        confidence: data.confidence / 100,
+      };
+    } finally {
+      this.progressListener = null;
+    }
+  }
+
+  /**
+   * Release the OCR worker
+   */
+  static async terminate(): Promise<void> {
+    if (this.workerPromise) {
+      const worker = await this.workerPromise;
+      this.workerPromise = null;
+      await worker.terminate();
+    }
+  }
+
+  /**
+   * Lazily create a single shared OCR worker
+   */
+  private static getWorker(): Promise<Tesseract.Worker> {
+    if (!this.workerPromise) {
+      this.workerPromise = (async () => {
+        const { createWorker } = await import('tesseract.js');
+        const response = await fetch(englishDataUrl);
+        const englishData = new Uint8Array(await response.arrayBuffer());
+
+        return createWorker([{ code: 'eng', data: englishData }], 1, {
+          workerPath: ocrWorkerUrl,
+          corePath: ocrCoreUrl,
+          workerBlobURL: false,
+          cacheMethod: 'none',
+          logger: message => {
+            if (message.status === 'recognizing text' && this.progressListener) {
+              this.progressListener(message.progress);
+            }
+          },
+        });
+      })();
+
+      // Allow a retry if the engine failed to start
+      this.workerPromise.catch(() => {
+        this.workerPromise = null;
+      });
+    }
+
+    return this.workerPromise;
+  }
+
+  private static createCanvas(width: number, height: number): HTMLCanvasElement | OffscreenCanvas {
+    if (typeof document !== 'undefined') {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      return canvas;
+    }
+    return new OffscreenCanvas(width, height);
+  }
+
+  /**
+   * Convert recognized words into pdf.js-style text items in PDF user space
+   */
+  private static toTextItems(blocks: Tesseract.Block[], pageHeight: number): TextItem[] {
+    const scale = this.RENDER_SCALE;
+    const items: TextItem[] = [];
+
+    blocks.forEach(block => {
+      block.paragraphs.forEach(paragraph => {
+        paragraph.lines.forEach(line => {
+          const fontSize = (line.rowAttributes?.rowHeight || line.bbox.y1 - line.bbox.y0) / scale;
+          const baseline = pageHeight - (line.baseline?.y0 ?? line.bbox.y1) / scale;
+
+          line.words.forEach((word, index) => {
+            items.push({
+              str: word.text,
+              dir: 'ltr',
+              transform: [fontSize, 0, 0, fontSize, word.bbox.x0 / scale, baseline],
+              width: (word.bbox.x1 - word.bbox.x0) / scale,
+              height: fontSize,
+              fontName: 'ocr',
+              hasEOL: index === line.words.length - 1,
+            });
+          });
+        });
+      });
+    });
+
+    return items;
+  }
+}
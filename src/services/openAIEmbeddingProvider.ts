@@ -0,0 +1,88 @@
+import { EmbeddingProvider, EmbeddingProviderConfig, EmbeddingProviderKind, EmbeddingBatch } from './embeddingProvider';
+import { HttpRequestError, RetryPolicy } from './retryPolicy';
+import { Tokenizer } from './tokenizer';
+
+export interface EmbeddingResponse {
+  data: Array<{
+    embedding: number[];
+    index: number;
+  }>;
+  model: string;
+  usage?: {
+    prompt_tokens: number;
+    total_tokens: number;
+  };
+}
+
+/**
+ * Embeddings from the OpenAI API or any server that implements its /embeddings endpoint, such as Ollama
+ * and LM Studio
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  static readonly DEFAULT_MODEL = 'text-embedding-3-small';
+  private static readonly OPENAI_BASE_URL = 'https://api.openai.com/v1';
+  private static readonly OPENAI_TOKENS_PER_MINUTE = 1_000_000; // Usage tier 1 limit of the embedding models
+
+  readonly kind: EmbeddingProviderKind;
+  readonly model: string;
+  readonly dimensions?: number;
+  readonly maxBatchSize = 100; // OpenAI's limit
+  readonly tokensPerMinute?: number;
+  readonly cacheable = true;
+  private readonly endpoint: string;
+  private readonly apiKey?: string;
+
+  constructor(config: EmbeddingProviderConfig) {
+    this.kind = config.kind;
+    this.model = config.model || OpenAIEmbeddingProvider.DEFAULT_MODEL;
+    const baseUrl = config.kind === 'openai' ? OpenAIEmbeddingProvider.OPENAI_BASE_URL : config.baseUrl;
+    if (!baseUrl) {
+      throw new Error('A base URL is required for an OpenAI-compatible embedding server');
+    }
+    this.endpoint = `${baseUrl.replace(/\/+$/, '')}/embeddings`;
+    this.apiKey = config.apiKey;
+    this.dimensions = config.dimensions;
+    this.tokensPerMinute = config.tokensPerMinute
+      ?? (config.kind === 'openai' ? OpenAIEmbeddingProvider.OPENAI_TOKENS_PER_MINUTE : undefined);
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<EmbeddingBatch> {
+    // Local servers usually run without authentication; OpenAI never does
+    if (this.kind === 'openai' && !this.apiKey) {
+      throw new Error('OpenAI API key is required');
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        input: texts,
+        dimensions: this.dimensions,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const source = this.kind === 'openai' ? 'OpenAI API' : 'Embedding server';
+      throw new HttpRequestError(
+        `${source} error: ${response.status} - ${errorData.error?.message || 'Unknown error'}`,
+        response.status,
+        RetryPolicy.retryAfter(response.headers)
+      );
+    }
+
+    const data: EmbeddingResponse = await response.json();
+    return {
+      embeddings: data.data.sort((a, b) => a.index - b.index).map(item => item.embedding),
+      // Some local servers leave usage out
+      promptTokens: data.usage?.prompt_tokens ?? texts.reduce((sum, text) => sum + Tokenizer.count(text), 0),
+    };
+  }
+}
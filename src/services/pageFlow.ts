@@ -0,0 +1,58 @@
+import { ExtractedText } from './textExtractor';
+
+// The text of all pages joined in reading order, so chunks can run across page breaks
+export interface PageFlow {
+  text: string;
+  pages: Array<{ page: ExtractedText; start: number }>; // Each page and where its text begins in the flow
+  sectionStarts: number[]; // Flow offsets where outline sections begin, in order
+}
+
+// The part of a chunk that lies on one page, as offsets into that page's text
+export interface PageSpan {
+  pageNumber: number;
+  startChar: number;
+  endChar: number;
+}
+
+// A page that ends like this finishes its sentence; anything else runs on into the next page
+const SENTENCE_END = /[.!?:]["'”’)\]]*(?:\[\^[^\]\s]{1,3}\])*$/;
+
+export class PageFlows {
+  /**
+   * Join page texts into one flow. A paragraph that continues onto the next page is joined with a line break,
+   * as if the break were not there; otherwise pages are separated like paragraphs.
+   */
+  static join(pages: ExtractedText[]): PageFlow {
+    let text = '';
+    const flowPages: PageFlow['pages'] = [];
+    const sectionStarts: number[] = [];
+
+    pages.forEach(page => {
+      const pageText = page.text.trimEnd();
+      if (!pageText.trim()) {
+        return;
+      }
+      if (text) {
+        const startsSection = page.sectionStarts.some(start => start.offset === 0);
+        text += SENTENCE_END.test(text) || startsSection ? '\n\n' : '\n';
+      }
+      flowPages.push({ page, start: text.length });
+      page.sectionStarts.forEach(start => sectionStarts.push(text.length + start.offset));
+      text += pageText;
+    });
+
+    return { text, pages: flowPages, sectionStarts: sectionStarts.sort((a, b) => a - b) };
+  }
+
+  /**
+   * Split a flow range into one span per page it covers
+   */
+  static locate(flow: PageFlow, start: number, end: number): PageSpan[] {
+    return flow.pages.flatMap(({ page, start: pageStart }, index) => {
+      const pageEnd = index + 1 < flow.pages.length ? flow.pages[index + 1].start : flow.text.length;
+      const from = Math.max(start, pageStart);
+      const to = Math.min(end, pageEnd, pageStart + page.text.trimEnd().length);
+      return from < to ? [{ pageNumber: page.pageNumber, startChar: from - pageStart, endChar: to - pageStart }] : [];
+    });
+  }
+}
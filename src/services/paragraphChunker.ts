@@ -0,0 +1,35 @@
+import { ChunkingStrategy, ChunkingSettings } from './chunkingStrategy';
+import { PageFlow } from './pageFlow';
+import { TextSpan, TextSpans } from './textSpans';
+import { Tokenizer } from './tokenizer';
+
+/**
+ * Packs whole paragraphs and never lets a chunk cross a section heading; long paragraphs fall back to sentences
+ */
+export class ParagraphChunkingStrategy implements ChunkingStrategy {
+  readonly name = 'paragraph';
+  readonly label = 'Paragraphs and headings';
+
+  async chunk(flow: PageFlow, settings: ChunkingSettings): Promise<TextSpan[]> {
+    const sections: TextSpan[][] = [[]];
+    let nextSection = 0;
+
+    TextSpans.paragraphs(flow.text).forEach(paragraph => {
+      let startsSection = false;
+      while (nextSection < flow.sectionStarts.length && flow.sectionStarts[nextSection] <= paragraph.start) {
+        startsSection = true;
+        nextSection++;
+      }
+      if (startsSection && sections[sections.length - 1].length > 0) {
+        sections.push([]);
+      }
+
+      const units = Tokenizer.count(paragraph.text) > settings.maxTokens
+        ? TextSpans.sentences(flow.text, paragraph.start, paragraph.end)
+        : [paragraph];
+      sections[sections.length - 1].push(...units);
+    });
+
+    return sections.flatMap(units => TextSpans.pack(flow.text, units, settings.maxTokens, 0));
+  }
+}
@@ -0,0 +1,52 @@
+import { PasswordReason } from './textExtractor';
+
+export interface PasswordRequest {
+  pdfId: string;
+  pdfName: string;
+  reason: PasswordReason;
+}
+
+// Resolves with the entered password, or null when the user dismisses the prompt
+export type PasswordPromptHandler = (request: PasswordRequest) => Promise<string | null>;
+
+/**
+ * Passwords for encrypted PDFs, kept in memory for the session only
+ */
+export class PasswordStore {
+  private static passwords: Map<string, string> = new Map();
+  private static promptHandler: PasswordPromptHandler | null = null;
+
+  static get(pdfId: string): string | undefined {
+    return this.passwords.get(pdfId);
+  }
+
+  static set(pdfId: string, password: string): void {
+    this.passwords.set(pdfId, password);
+  }
+
+  static forget(pdfId: string): void {
+    this.passwords.delete(pdfId);
+  }
+
+  static clear(): void {
+    this.passwords.clear();
+  }
+
+  /**
+   * Register the UI that asks the user for a password
+   */
+  static setPromptHandler(handler: PasswordPromptHandler | null): void {
+    this.promptHandler = handler;
+  }
+
+  /**
+   * Ask the user for a password; resolves with null when no prompt is available or it was dismissed
+   */
+  static async request(request: PasswordRequest): Promise<string | null> {
+    if (!this.promptHandler) {
+      console.warn(`No password prompt available for ${request.pdfName}`);
+      return null;
+    }
+    return this.promptHandler(request);
+  }
+}
@@ -0,0 +1,230 @@
+import { PositionedTextItem } from './layoutAnalyzer';
+import { Annotation } from '../types';
+
+// An annotation found in the PDF itself, ready to be saved as a highlight
+export type ImportedAnnotation = Omit<Annotation, 'id' | 'createdAt'>;
+
+export type FormFieldType = 'text' | 'checkbox' | 'radiobutton' | 'combobox' | 'listbox';
+
+export interface FormField {
+  name: string; // Fully qualified field name, e.g. "applicant.income"
+  label?: string; // The field's tooltip text, which forms often use as a readable caption
+  type: FormFieldType;
+  value: string | boolean | null; // Checkboxes are true or false; null when nothing was entered
+  pageNumber: number;
+}
+
+export interface PageAnnotations {
+  annotations: ImportedAnnotation[];
+  fields: FormField[];
+}
+
+// The fields of pdf.js annotation data this reader uses; pdf.js itself leaves the data untyped
+export interface RawAnnotation {
+  id: string;
+  subtype: string;
+  rect: number[]; // [x1, y1, x2, y2] in PDF user space
+  quadPoints?: { x: number; y: number }[][]; // Text markup: one quadrilateral per line
+  color?: ArrayLike<number> | null;
+  inReplyTo?: string; // Id of the annotation a reply answers
+  contentsObj?: { str?: string };
+  titleObj?: { str?: string }; // Author
+  // Form widgets
+  fieldName?: string;
+  fieldType?: 'Tx' | 'Btn' | 'Ch' | 'Sig';
+  fieldValue?: string | string[] | null;
+  alternativeText?: string;
+  pushButton?: boolean;
+  checkBox?: boolean;
+  radioButton?: boolean;
+  buttonValue?: string | null;
+  combo?: boolean;
+  options?: { exportValue: string; displayValue: string }[];
+}
+
+const TEXT_MARKUP = new Set(['Highlight', 'Underline', 'Squiggly', 'StrikeOut']);
+const NOTES = new Set(['Text', 'FreeText']);
+const DEFAULT_COLOR = '#ffeb3b';
+
+export class PDFAnnotationReader {
+  /**
+   * Convert a page's pdf.js annotations into highlights and notes, and read the values of its form widgets
+   */
+  static readPage(
+    rawAnnotations: RawAnnotation[],
+    items: PositionedTextItem[],
+    view: number[],
+    pageNumber: number
+  ): PageAnnotations {
+    const [originX, originY, right, top] = view;
+    const width = right - originX;
+    const height = top - originY;
+    const toArea = (x1: number, y1: number, x2: number, y2: number) => ({
+      pageIndex: pageNumber - 1,
+      left: ((Math.min(x1, x2) - originX) / width) * 100,
+      top: ((top - Math.max(y1, y2)) / height) * 100,
+      width: (Math.abs(x2 - x1) / width) * 100,
+      height: (Math.abs(y2 - y1) / height) * 100,
+    });
+
+    const annotations = new Map<string, ImportedAnnotation>();
+    const replies: RawAnnotation[] = [];
+    const fields: FormField[] = [];
+
+    rawAnnotations.forEach(raw => {
+      if (raw.subtype === 'Widget') {
+        const field = this.toFormField(raw, pageNumber);
+        if (field) {
+          fields.push(field);
+        }
+        return;
+      }
+      if (!TEXT_MARKUP.has(raw.subtype) && !NOTES.has(raw.subtype)) {
+        return;
+      }
+      if (raw.inReplyTo) {
+        replies.push(raw);
+        return;
+      }
+
+      const comment = this.commentOf(raw);
+      const [x1, y1, x2, y2] = raw.rect;
+      // Text markup covers one quadrilateral per line; notes only have their rectangle
+      const quads: { x: number; y: number }[][] = TEXT_MARKUP.has(raw.subtype) && raw.quadPoints?.length
+        ? raw.quadPoints
+        : [[{ x: x1, y: y2 }, { x: x2, y: y2 }, { x: x1, y: y1 }, { x: x2, y: y1 }]];
+      const highlightAreas = quads.map(quad => toArea(quad[0].x, quad[0].y, quad[3].x, quad[3].y));
+      const first = highlightAreas[0];
+
+      let content: string;
+      if (TEXT_MARKUP.has(raw.subtype)) {
+        content = quads
+          .map(quad => this.textUnder(items, quad[0].x - originX, quad[3].y - originY, quad[3].x - originX, quad[0].y - originY))
+          .filter(Boolean)
+          .join(' ');
+      } else {
+        content = comment || '';
+      }
+      if (!content) {
+        return;
+      }
+
+      annotations.set(raw.id, {
+        type: TEXT_MARKUP.has(raw.subtype) ? 'highlight' : 'note',
+        content,
+        position: { x: first.left, y: first.top, width: first.width, height: first.height },
+        pageNumber,
+        color: this.toHex(raw.color),
+        comment: TEXT_MARKUP.has(raw.subtype) ? comment : undefined,
+        highlightAreas,
+      });
+    });
+
+    // Replies in a comment thread are folded into the annotation they answer
+    replies.forEach(reply => {
+      const parent = annotations.get(reply.inReplyTo!);
+      const comment = this.commentOf(reply);
+      if (parent && comment) {
+        parent.comment = parent.comment ? `${parent.comment}\n${comment}` : comment;
+      }
+    });
+
+    return { annotations: [...annotations.values()], fields };
+  }
+
+  /**
+   * Combine the widgets of each field (radio groups and repeated fields span several) into one record
+   */
+  static mergeFields(widgets: FormField[]): FormField[] {
+    const fields = new Map<string, FormField>();
+
+    widgets.forEach(widget => {
+      const existing = fields.get(widget.name);
+      if (!existing) {
+        fields.set(widget.name, { ...widget });
+        return;
+      }
+      if (existing.value === null || existing.value === false) {
+        existing.value = widget.value;
+      }
+      existing.label = existing.label || widget.label;
+    });
+
+    return [...fields.values()];
+  }
+
+  private static toFormField(raw: RawAnnotation, pageNumber: number): FormField | null {
+    if (!raw.fieldName || raw.pushButton) {
+      return null;
+    }
+    const label = raw.alternativeText?.trim() || undefined;
+
+    switch (raw.fieldType) {
+      case 'Tx':
+        return { name: raw.fieldName, label, type: 'text', value: typeof raw.fieldValue === 'string' ? raw.fieldValue.trim() || null : null, pageNumber };
+      case 'Btn':
+        if (raw.checkBox) {
+          const checked = !!raw.fieldValue && raw.fieldValue !== 'Off';
+          return { name: raw.fieldName, label, type: 'checkbox', value: checked, pageNumber };
+        }
+        if (raw.radioButton) {
+          // Every button of the group reports the selected value; only the selected one carries it as its own
+          const selected = raw.fieldValue && raw.fieldValue === raw.buttonValue ? String(raw.buttonValue) : null;
+          return { name: raw.fieldName, label, type: 'radiobutton', value: selected, pageNumber };
+        }
+        return null;
+      case 'Ch': {
+        const values = Array.isArray(raw.fieldValue) ? raw.fieldValue : [raw.fieldValue].filter((value): value is string => !!value);
+        const display = values.map(value =>
+          raw.options?.find(option => option.exportValue === value)?.displayValue || value
+        );
+        return {
+          name: raw.fieldName,
+          label,
+          type: raw.combo ? 'combobox' : 'listbox',
+          value: display.length > 0 ? display.join(', ') : null,
+          pageNumber,
+        };
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Text of the items inside a box, trimmed to the characters the box covers
+   */
+  private static textUnder(items: PositionedTextItem[], x1: number, y1: number, x2: number, y2: number): string {
+    return items
+      .filter(item => {
+        const middle = item.bbox.y + item.bbox.height / 2;
+        return middle >= y1 && middle <= y2 && item.bbox.x < x2 && item.bbox.x + item.bbox.width > x1;
+      })
+      .sort((a, b) => b.bbox.y - a.bbox.y || a.bbox.x - b.bbox.x)
+      .map(item => {
+        const charWidth = item.bbox.width / Math.max(item.text.length, 1);
+        const start = Math.max(0, Math.round((x1 - item.bbox.x) / charWidth));
+        const end = Math.min(item.text.length, Math.round((x2 - item.bbox.x) / charWidth));
+        return item.text.slice(start, end);
+      })
+      .join(' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private static commentOf(raw: RawAnnotation): string | undefined {
+    const contents = raw.contentsObj?.str?.trim();
+    if (!contents) {
+      return undefined;
+    }
+    const author = raw.titleObj?.str?.trim();
+    return author ? `${author}: ${contents}` : contents;
+  }
+
+  private static toHex(color: ArrayLike<number> | null | undefined): string {
+    if (!color || color.length < 3) {
+      return DEFAULT_COLOR;
+    }
+    return `#${Array.from(color).slice(0, 3).map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+  }
+}
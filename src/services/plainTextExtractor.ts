@@ -0,0 +1,29 @@
+import { DocumentExtractor } from './documentExtractor';
+import { ExtractedPDF } from './textExtractor';
+import { StructuredDocument, DocumentBlock } from './structuredDocument';
+
+export class PlainTextExtractor implements DocumentExtractor {
+  readonly format = 'text';
+  readonly extensions = ['txt', 'text'];
+  readonly mimeTypes = ['text/plain'];
+  readonly requiresDOM = false;
+
+  /**
+   * Split plain text into paragraphs at blank lines; long documents are paged by length
+   */
+  async extract(file: File, id: string, name: string): Promise<ExtractedPDF> {
+    const text = (await file.text()).replace(/\r\n?/g, '\n');
+
+    // Without blank lines every line stands on its own; otherwise hard-wrapped lines are rejoined
+    const paragraphs = /\n\s*\n/.test(text)
+      ? text.split(/\n\s*\n/).map(paragraph => paragraph.replace(/\s*\n\s*/g, ' '))
+      : text.split('\n');
+
+    const blocks: DocumentBlock[] = paragraphs
+      .map(paragraph => paragraph.trim())
+      .filter(Boolean)
+      .map(paragraph => ({ type: 'paragraph', text: paragraph }));
+
+    return StructuredDocument.toExtractedPDF(blocks, id, name, this.format);
+  }
+}
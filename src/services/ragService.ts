@@ -1,46 +1,214 @@
-import { TextExtractor, ExtractedPDF } from './textExtractor';
-import { TextChunker } from './textChunker';
-import { EmbeddingService } from './embeddingService';
+import { ExtractedPDF, PasswordRequiredError } from './textExtractor';
 import { VectorStore, SearchResult } from './vectorStore';
+import { IngestPipeline, IngestJob, IngestResult, IngestCheckpoint, IngestFailedError } from './ingestPipeline';
+import { IngestClient } from './ingestClient';
+import { DocumentExtractors, DocumentExtractor } from './documentExtractor';
+import { PasswordStore } from './passwordStore';
+import { TextChunk } from './textChunker';
+import { ChunkingOptions, ChunkingSettings } from './chunkingStrategy';
+import { CitationLinker, SourceCitation } from './citationLinker';
+import { SourceLocator, HighlightArea } from './sourceLocator';
+import { EmbeddingProviderConfig, EmbeddingProviders } from './embeddingProvider';
+import { UsageMeter, UsageTotals } from './usageMeter';
+import { UsageLedger, BudgetExceededError } from './usageLedger';
 import { PDFDocument } from '../components/PDFManager';
+import { IngestProgress } from '../types';
 
 export interface RAGConfig {
   openaiApiKey: string;
   maxChunks: number;
   temperature: number;
+  chunking?: ChunkingOptions; // Default strategy and chunk sizes in tokens
+  embedding?: EmbeddingProviderConfig; // OpenAI's default embedding model unless set
+  usageLedger?: UsageLedger; // Where the workspace's token usage is recorded
+  monthlyBudgetUsd?: number; // Paid calls are refused once this month's estimated cost reaches it
+}
+
+export interface ProcessingOptions {
+  extraction?: IngestJob['extraction'];
+  chunking?: ChunkingOptions; // Overrides the configured chunking for this document
+  signal?: AbortSignal;
+  onProgress?: (progress: IngestProgress) => void;
+}
+
+export interface RAGSource {
+  pdfId: string;
+  pdfName: string;
+  pageNumber: number;
+  pageLabel?: string;
+  endPageNumber?: number; // Later than pageNumber when the source runs across a page break
+  endPageLabel?: string;
+  section?: string;
+  text: string;
+  similarity: number;
+  citations?: SourceCitation[]; // Works the source cites, resolved from the bibliography
+  areas?: HighlightArea[]; // Where the source text sits on its pages, for drawing it in the viewer
+  occurrences?: SourceOccurrence[]; // Other places with nearly the same text, collapsed into this source
+}
+
+export interface SourceOccurrence {
+  pdfId: string;
+  pdfName: string;
+  pageNumber: number;
+  pageLabel?: string;
+}
+
+// Text handed to the model: a matched chunk, or the section its matched chunks belong to
+interface RetrievedPassage {
+  chunk: TextChunk;
+  similarity: number;
+  duplicates: TextChunk[];
+}
+
+// An ingest shared by every caller that asked for the same document while it was running
+interface IngestRun {
+  promise: Promise<void>;
+  controller: AbortController; // Aborted once every caller that could cancel has cancelled
+  callers: number; // Callers still waiting for it
+  progressListeners: Set<(progress: IngestProgress) => void>;
+  lastProgress?: IngestProgress; // Replayed to callers that join later
+}
+
+// Progress of moving the index to another embedding model. Queries use the old index until it is done.
+export interface EmbeddingMigrationStatus {
+  embeddingModel: string; // Model id the documents are being embedded with
+  state: 'running' | 'paused' | 'failed' | 'done';
+  completed: number; // Chunks embedded with the new model
+  total: number;
+  error?: string; // Why it failed; resuming picks up from the failed batch
+}
+
+// A migration under way: the index being built with the new model, and the progress of unfinished documents
+interface EmbeddingMigration {
+  embedding: EmbeddingProviderConfig;
+  vectorStore: VectorStore;
+  checkpoints: Map<string, IngestCheckpoint>;
+  migrated: Set<string>; // Documents in the new index
+  controller: AbortController;
+  status: EmbeddingMigrationStatus;
+  running: Promise<void> | null;
 }
 
 export interface RAGResponse {
   answer: string;
-  sources: Array<{
-    pdfName: string;
-    pageNumber: number;
-    text: string;
-    similarity: number;
-  }>;
+  sources: RAGSource[];
   metadata: {
     processingTime: number;
     chunksUsed: number;
     pdfsQueried: string[];
+    usage: UsageTotals; // Tokens spent answering, by model
   };
 }
 
 export class RAGService {
+  private static readonly CHAT_MODEL = 'gpt-3.5-turbo';
+
   private vectorStore: VectorStore;
   private config: RAGConfig;
+  private embedding: EmbeddingProviderConfig;
   private extractedPDFs: Map<string, ExtractedPDF> = new Map();
+  private documents: Map<string, PDFDocument> = new Map(); // Processed documents, kept for re-embedding
+  private inFlight: Map<string, IngestRun> = new Map();
+  private checkpoints: Map<string, IngestCheckpoint> = new Map(); // Progress of failed ingests, resumed on retry
+  private ingestClient: IngestClient | null = typeof Worker !== 'undefined' ? new IngestClient() : null;
+  private processedListeners: Set<(pdfId: string) => void> = new Set();
+  private migration: EmbeddingMigration | null = null;
+  private migrationListeners: Set<(status: EmbeddingMigrationStatus | null) => void> = new Set();
 
   constructor(config: RAGConfig) {
     this.config = config;
+    this.embedding = this.withApiKey(config.embedding || { kind: 'openai' });
     this.vectorStore = new VectorStore({
-      apiKey: config.openaiApiKey,
+      embedding: this.embedding,
+    });
+  }
+
+  /**
+   * The OpenAI key is only ever sent to OpenAI, never to a local or third-party server
+   */
+  private withApiKey(embedding: EmbeddingProviderConfig): EmbeddingProviderConfig {
+    return embedding.kind === 'openai' && !embedding.apiKey
+      ? { ...embedding, apiKey: this.config.openaiApiKey }
+      : embedding;
+  }
+
+  /**
+   * Process a PDF file and add it to the RAG system.
+   * A request for a PDF that is already processing joins that ingest (with the first caller's extraction and
+   * chunking options): it gets the progress from then on, and cancelling only stops the work once every caller has.
+   */
+  async processPDF(pdfDocument: PDFDocument, options: ProcessingOptions = {}): Promise<void> {
+    options.signal?.throwIfAborted();
+    
+    const inFlight = this.inFlight.get(pdfDocument.id);
+    if (inFlight?.controller.signal.aborted) {
+      // Everyone else cancelled it; start again (from its checkpoint) once it has stopped
+      await inFlight.promise.catch(() => undefined);
+      return this.processPDF(pdfDocument, options);
+    }
+    if (inFlight) {
+      console.log(`⏳ PDF ${pdfDocument.name} is already being processed, joining it`);
+    }
+    return this.joinIngest(inFlight || this.startIngest(pdfDocument, options), options);
+  }
+
+  private startIngest(pdfDocument: PDFDocument, options: ProcessingOptions): IngestRun {
+    const run: IngestRun = {
+      promise: Promise.resolve(),
+      controller: new AbortController(),
+      callers: 0,
+      progressListeners: new Set(),
+    };
+    run.promise = this.runIngest(pdfDocument, {
+      ...options,
+      signal: run.controller.signal,
+      onProgress: progress => {
+        run.lastProgress = progress;
+        run.progressListeners.forEach(listener => listener(progress));
+      },
+    }).finally(() => {
+      this.inFlight.delete(pdfDocument.id);
     });
+    this.inFlight.set(pdfDocument.id, run);
+    return run;
   }
 
   /**
-   * Process a PDF file and add it to the RAG system
+   * Wait for a shared ingest; a caller that cancels stops waiting right away
    */
-  async processPDF(pdfDocument: PDFDocument): Promise<void> {
+  private joinIngest(run: IngestRun, { signal, onProgress }: ProcessingOptions): Promise<void> {
+    run.callers++;
+    if (onProgress) {
+      run.progressListeners.add(onProgress);
+      if (run.lastProgress) {
+        onProgress(run.lastProgress);
+      }
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const leave = () => {
+        signal?.removeEventListener('abort', cancel);
+        if (onProgress) {
+          run.progressListeners.delete(onProgress);
+        }
+      };
+      const cancel = () => {
+        leave();
+        reject(signal!.reason);
+        // Callers without a signal can never cancel, so they keep the work going
+        if (--run.callers === 0) {
+          run.controller.abort(signal!.reason);
+        }
+      };
+      signal?.addEventListener('abort', cancel, { once: true });
+      run.promise.then(
+        () => { leave(); resolve(); },
+        error => { leave(); reject(error); }
+      );
+    });
+  }
+
+  private async runIngest(pdfDocument: PDFDocument, options: ProcessingOptions): Promise<void> {
     try {
       console.log(`🔄 Processing PDF: ${pdfDocument.name} (ID: ${pdfDocument.id})`);
       console.log(`📄 PDF file object:`, {
@@ -55,67 +223,136 @@ export class RAGService {
         return;
       }
       
-      console.log(`📖 Starting text extraction for ${pdfDocument.name}...`);
-      // Extract text from PDF
-      const extractedPDF = await TextExtractor.extractTextFromPDF(
-        pdfDocument.file, 
-        pdfDocument.id, 
-        pdfDocument.name
-      );
+      const extractor = DocumentExtractors.forFile(pdfDocument.file);
+      if (!extractor) {
+        throw new Error(`Unsupported file type: ${pdfDocument.file.name}`);
+      }
+      this.config.usageLedger?.assertWithinBudget(this.config.monthlyBudgetUsd);
+      
+      console.log(`📖 Starting ingest (extraction → chunking → embedding) for ${pdfDocument.name}...`);
+      const { extractedPDF, embeddedChunks, parentChunks, usage } = await this.ingestWithPassword(pdfDocument, extractor, options);
+      this.recordIngestUsage(pdfDocument, usage);
+      
       console.log(`📖 Text extraction completed for ${pdfDocument.name}:`, {
         pages: extractedPDF.extractedText.length,
-        totalTextLength: extractedPDF.extractedText.reduce((sum, page) => sum + page.text.length, 0)
+        totalTextLength: extractedPDF.extractedText.reduce((sum, page) => sum + page.text.length, 0),
+        runningTextRemoved: extractedPDF.removedText.length
       });
-      this.extractedPDFs.set(pdfDocument.id, extractedPDF);
-      
-      console.log(`✂️ Starting text chunking for ${pdfDocument.name}...`);
-      // Chunk the text
-      const chunks = TextChunker.chunkPDF(extractedPDF);
-      console.log(`✂️ Created ${chunks.length} chunks for ${pdfDocument.name}`);
-      
-      console.log(`🧠 Starting embedding generation for ${pdfDocument.name}...`);
-      // Generate embeddings in batches to avoid overwhelming the API
-      const embeddedChunks = await this.generateEmbeddingsInBatches(
-        chunks,
-        this.config.openaiApiKey
-      );
       console.log(`🧠 Generated embeddings for ${embeddedChunks.length} chunks for ${pdfDocument.name}`);
       
       console.log(`💾 Adding chunks to vector store for ${pdfDocument.name}...`);
       // Add to vector store
-      this.vectorStore.addChunks(embeddedChunks);
+      this.vectorStore.addChunks(embeddedChunks, parentChunks);
+      this.extractedPDFs.set(pdfDocument.id, extractedPDF);
+      this.documents.set(pdfDocument.id, pdfDocument);
+      this.checkpoints.delete(pdfDocument.id);
+      this.processedListeners.forEach(listener => listener(pdfDocument.id));
       
       console.log(`Successfully processed PDF: ${pdfDocument.name}`);
     } catch (error) {
+      if (error instanceof IngestFailedError) {
+        this.recordIngestUsage(pdfDocument, error.usage);
+      }
+      if (error instanceof IngestFailedError && error.checkpoint) {
+        this.checkpoints.set(pdfDocument.id, error.checkpoint);
+        console.log(`💾 Kept ${error.checkpoint.embeddedChunks.length}/${error.checkpoint.chunks.length} embedded chunks of ${pdfDocument.name}; processing it again resumes from there`);
+      }
+      // An ingest stopped by the budget says so, rather than looking like a failure
+      const budgetExceeded = error instanceof IngestFailedError ? error.budgetExceeded : error;
+      if (budgetExceeded instanceof BudgetExceededError) {
+        throw budgetExceeded;
+      }
+      if (options.signal?.aborted) {
+        console.log(`🛑 Processing cancelled for PDF: ${pdfDocument.name}`);
+        throw error;
+      }
+      if (error instanceof PasswordRequiredError) {
+        console.log(`🔒 No password given for PDF: ${pdfDocument.name}`);
+        throw error;
+      }
       console.error(`Error processing PDF ${pdfDocument.name}:`, error);
       throw new Error(`Failed to process PDF: ${error}`);
     }
   }
 
+  private recordIngestUsage(pdfDocument: PDFDocument, usage: UsageTotals): void {
+    this.config.usageLedger?.record({ kind: 'ingest', label: pdfDocument.name, pdfId: pdfDocument.id, usage });
+  }
+
   /**
-   * Generate embeddings in batches to avoid API rate limits
+   * Run the ingest, asking the user for a password (and retrying) while an encrypted PDF refuses to open
    */
-  private async generateEmbeddingsInBatches(
-    chunks: any[], 
-    apiKey: string, 
-    batchSize: number = 10
-  ): Promise<any[]> {
-    const results: any[] = [];
+  private async ingestWithPassword(
+    pdfDocument: PDFDocument,
+    extractor: DocumentExtractor,
+    options: ProcessingOptions
+  ): Promise<IngestResult> {
+    let password = PasswordStore.get(pdfDocument.id);
     
-    for (let i = 0; i < chunks.length; i += batchSize) {
-      const batch = chunks.slice(i, i + batchSize);
-      console.log(`Processing embedding batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(chunks.length / batchSize)}`);
-      
-      const batchResults = await EmbeddingService.generateEmbeddings(batch, apiKey);
-      results.push(...batchResults);
-      
-      // Small delay between batches to avoid rate limiting
-      if (i + batchSize < chunks.length) {
-        await new Promise(resolve => setTimeout(resolve, 100));
+    while (true) {
+      try {
+        const result = await this.ingest(pdfDocument, extractor, options, password);
+        if (password) {
+          PasswordStore.set(pdfDocument.id, password);
+        }
+        return result;
+      } catch (error) {
+        if (!(error instanceof PasswordRequiredError)) {
+          throw error;
+        }
+        
+        PasswordStore.forget(pdfDocument.id);
+        const entered = await PasswordStore.request({
+          pdfId: pdfDocument.id,
+          pdfName: pdfDocument.name,
+          reason: password ? 'incorrect' : error.reason,
+        });
+        if (entered === null) {
+          throw error;
+        }
+        password = entered;
       }
     }
+  }
+
+  private async ingest(
+    pdfDocument: PDFDocument,
+    extractor: DocumentExtractor,
+    options: ProcessingOptions,
+    password?: string
+  ): Promise<IngestResult> {
+    const job: IngestJob = {
+      file: pdfDocument.file,
+      pdfId: pdfDocument.id,
+      pdfName: pdfDocument.name,
+      embedding: this.embedding,
+      extraction: { readingOrder: pdfDocument.readingOrder, ...options.extraction, password },
+      chunking: { ...this.config.chunking, ...options.chunking },
+      checkpoint: this.checkpoints.get(pdfDocument.id),
+    };
+    
+    // DOMParser is not available in workers, so those formats are parsed here and only chunked and embedded there
+    if (this.ingestClient && extractor.requiresDOM) {
+      options.onProgress?.({ stage: 'extracting', completed: 0, total: 1 });
+      job.extractedPDF = await extractor.extract(pdfDocument.file, pdfDocument.id, pdfDocument.name, {
+        ...job.extraction,
+        signal: options.signal,
+      });
+    }
+    return this.runJob(job, options);
+  }
+
+  private runJob(job: IngestJob, options: Pick<ProcessingOptions, 'signal' | 'onProgress'>): Promise<IngestResult> {
+    const { usageLedger, monthlyBudgetUsd } = this.config;
+    if (usageLedger && monthlyBudgetUsd !== undefined) {
+      job.budget = { limitUsd: monthlyBudgetUsd, spentUsd: usageLedger.monthCost() };
+    }
+    const ingestOptions = { signal: options.signal, onProgress: options.onProgress };
     
-    return results;
+    // Run in a worker when available so large documents do not block the UI
+    return this.ingestClient
+      ? this.ingestClient.ingest(job, ingestOptions)
+      : IngestPipeline.run(job, ingestOptions);
   }
 
   /**
@@ -171,9 +408,12 @@ export class RAGService {
    */
   async query(
     question: string,
-    pdfIds: string[]
+    pdfIds: string[],
+    conversationId?: string
   ): Promise<RAGResponse> {
     const startTime = Date.now();
+    this.config.usageLedger?.assertWithinBudget(this.config.monthlyBudgetUsd);
+    const meter = new UsageMeter();
     
     try {
       console.log(`🔍 Querying RAG system: "${question}" for PDFs: ${pdfIds.join(', ')}`);
@@ -199,14 +439,15 @@ export class RAGService {
       
       if (questions.length > 1) {
         console.log(`Detected ${questions.length} separate questions, processing each individually`);
-        return await this.processMultipleQuestions(questions, pdfIds, startTime);
+        return await this.processMultipleQuestions(questions, pdfIds, startTime, meter);
       }
       
       // Single question processing (original logic)
       const searchResults = await this.vectorStore.search(
         question,
         pdfIds,
-        this.config.maxChunks
+        this.config.maxChunks,
+        meter
       );
       
       console.log(`Search results for question "${question}":`, searchResults.length);
@@ -236,20 +477,17 @@ Please make sure the PDFs are uploaded and processed first.`,
             processingTime: Date.now() - startTime,
             chunksUsed: 0,
             pdfsQueried: pdfIds,
+            usage: meter.snapshot(),
           },
         };
       }
       
-      // Generate response using OpenAI
-      const answer = await this.generateResponse(question, searchResults);
+      // Generate response using OpenAI, with the sections around the matched chunks as context
+      const passages = this.expandToParents(searchResults);
+      const answer = await this.generateResponse(question, passages, meter);
       
       // Format sources
-      const sources = searchResults.map(result => ({
-        pdfName: result.chunk.pdfName,
-        pageNumber: result.chunk.pageNumber,
-        text: result.chunk.text,
-        similarity: result.similarity,
-      }));
+      const sources = passages.map(passage => this.toSource(passage));
       
       return {
         answer,
@@ -258,11 +496,15 @@ Please make sure the PDFs are uploaded and processed first.`,
           processingTime: Date.now() - startTime,
           chunksUsed: searchResults.length,
           pdfsQueried: pdfIds,
+          usage: meter.snapshot(),
         },
       };
     } catch (error) {
       console.error('Error querying RAG system:', error);
       throw new Error(`Failed to query RAG system: ${error}`);
+    } finally {
+      // Tokens are paid for whether or not the answer made it back
+      this.config.usageLedger?.record({ kind: 'query', label: question, conversationId, usage: meter.snapshot() });
     }
   }
 
@@ -320,15 +562,11 @@ Please make sure the PDFs are uploaded and processed first.`,
   private async processMultipleQuestions(
     questions: string[],
     pdfIds: string[],
-    startTime: number
+    startTime: number,
+    meter: UsageMeter
   ): Promise<RAGResponse> {
     const answers: string[] = [];
-    const allSources: Array<{
-      pdfName: string;
-      pageNumber: number;
-      text: string;
-      similarity: number;
-    }> = [];
+    const allSources: RAGSource[] = [];
     let totalChunksUsed = 0;
 
     for (let i = 0; i < questions.length; i++) {
@@ -340,22 +578,19 @@ Please make sure the PDFs are uploaded and processed first.`,
         const searchResults = await this.vectorStore.search(
           question,
           pdfIds,
-          Math.ceil(this.config.maxChunks / questions.length) // Distribute chunks across questions
+          Math.ceil(this.config.maxChunks / questions.length), // Distribute chunks across questions
+          meter
         );
         
         if (searchResults.length > 0) {
           // Generate response for this question
-          const answer = await this.generateResponse(question, searchResults);
+          const passages = this.expandToParents(searchResults);
+          const answer = await this.generateResponse(question, passages, meter);
           answers.push(`**Question ${i + 1}:** ${question}\n\n**Answer:** ${answer}`);
           
           // Collect sources
-          searchResults.forEach(result => {
-            allSources.push({
-              pdfName: result.chunk.pdfName,
-              pageNumber: result.chunk.pageNumber,
-              text: result.chunk.text,
-              similarity: result.similarity,
-            });
+          passages.forEach(passage => {
+            allSources.push(this.toSource(passage));
           });
           
           totalChunksUsed += searchResults.length;
@@ -375,22 +610,87 @@ Please make sure the PDFs are uploaded and processed first.`,
         processingTime: Date.now() - startTime,
         chunksUsed: totalChunksUsed,
         pdfsQueried: pdfIds,
+        usage: meter.snapshot(),
       },
     };
   }
 
+  /**
+   * Replace matched chunks with the sections they belong to, once per section. Results come best first,
+   * so each section keeps the similarity of its best-matching chunk.
+   */
+  private expandToParents(searchResults: SearchResult[]): RetrievedPassage[] {
+    const passages: RetrievedPassage[] = [];
+    const seen = new Set<string>();
+    
+    searchResults.forEach(result => {
+      const chunk = this.vectorStore.getParent(result.chunk) || result.chunk;
+      if (!seen.has(chunk.id)) {
+        seen.add(chunk.id);
+        passages.push({ chunk, similarity: result.similarity, duplicates: result.duplicates });
+      }
+    });
+    
+    return passages;
+  }
+
+  private toSource(result: RetrievedPassage): RAGSource {
+    const citations = this.citationsFor(result.chunk);
+    const pages = this.extractedPDFs.get(result.chunk.pdfId)?.extractedText || [];
+    const areas = SourceLocator.areasForChunk(result.chunk, pages);
+    return {
+      pdfId: result.chunk.pdfId,
+      pdfName: result.chunk.pdfName,
+      pageNumber: result.chunk.pageNumber,
+      pageLabel: result.chunk.metadata.pageLabel,
+      endPageNumber: result.chunk.metadata.endPageNumber,
+      endPageLabel: result.chunk.metadata.endPageLabel,
+      section: result.chunk.metadata.section,
+      text: result.chunk.text,
+      similarity: result.similarity,
+      citations: citations.length > 0 ? citations : undefined,
+      areas: areas.length > 0 ? areas : undefined,
+      occurrences: result.duplicates.length > 0
+        ? result.duplicates.map(duplicate => ({
+            pdfId: duplicate.pdfId,
+            pdfName: duplicate.pdfName,
+            pageNumber: duplicate.pageNumber,
+            pageLabel: duplicate.metadata.pageLabel,
+          }))
+        : undefined,
+    };
+  }
+
+  private citationsFor(chunk: TextChunk): SourceCitation[] {
+    const bibliography = this.extractedPDFs.get(chunk.pdfId)?.bibliography ?? null;
+    return CitationLinker.resolve(chunk.metadata.citations, bibliography);
+  }
+
   /**
    * Generate response using OpenAI
    */
   private async generateResponse(
     question: string,
-    searchResults: SearchResult[]
+    passages: RetrievedPassage[],
+    meter: UsageMeter
   ): Promise<string> {
-    const context = searchResults
+    const context = passages
       .map((result, index) => {
         const chunk = result.chunk;
-        return `[Source ${index + 1} from ${chunk.pdfName}, Page ${chunk.pageNumber}]
-${chunk.text}`;
+        const page = chunk.metadata.endPageNumber > chunk.pageNumber
+          ? `Pages ${chunk.metadata.pageLabel || chunk.pageNumber}-${chunk.metadata.endPageLabel || chunk.metadata.endPageNumber}`
+          : `Page ${chunk.metadata.pageLabel || chunk.pageNumber}`;
+        const section = chunk.metadata.section ? `, Section "${chunk.metadata.section}"` : '';
+        // Spell out cited works so questions like "what does [23] refer to" can be answered
+        const citations = this.citationsFor(chunk);
+        const cited = citations.length > 0
+          ? `\nReferences cited in this source:\n${citations.flatMap(citation => citation.references)
+              .filter((entry, i, all) => all.findIndex(other => other.key === entry.key) === i)
+              .map(entry => `${entry.label} ${entry.text}`)
+              .join('\n')}`
+          : '';
+        return `[Source ${index + 1} from ${chunk.pdfName}, ${page}${section}]
+${chunk.text}${cited}`;
       })
       .join('\n\n');
 
@@ -411,7 +711,7 @@ Answer:`;
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          model: 'gpt-3.5-turbo',
+          model: RAGService.CHAT_MODEL,
           messages: [
             {
               role: 'user',
@@ -429,6 +729,7 @@ Answer:`;
       }
 
       const data = await response.json();
+      meter.record(data.model || RAGService.CHAT_MODEL, data.usage?.prompt_tokens ?? 0, data.usage?.completion_tokens ?? 0);
       return data.choices[0].message.content.trim();
     } catch (error) {
       console.error('Error generating response:', error);
@@ -442,6 +743,204 @@ Answer:`;
   removePDF(pdfId: string): void {
     this.vectorStore.removePDF(pdfId);
     this.extractedPDFs.delete(pdfId);
+    this.documents.delete(pdfId);
+    this.checkpoints.delete(pdfId);
+    this.migration?.vectorStore.removePDF(pdfId);
+    this.migration?.checkpoints.delete(pdfId);
+    this.migration?.migrated.delete(pdfId);
+  }
+
+  /**
+   * Move the index to another embedding model. Documents are embedded again in the background from the
+   * chunks they already have; queries keep using the current index until every document is done.
+   */
+  changeEmbedding(embedding: EmbeddingProviderConfig): void {
+    const target = this.withApiKey(embedding);
+    const embeddingModel = EmbeddingProviders.modelId(EmbeddingProviders.create(target));
+    if (embeddingModel === this.vectorStore.embeddingModel) {
+      // Same vectors, perhaps from another server; nothing to embed again
+      this.cancelMigration();
+      this.vectorStore.setEmbedding(target);
+      this.embedding = target;
+      return;
+    }
+    if (this.migration?.status.embeddingModel === embeddingModel) {
+      this.migration.embedding = target;
+      this.migration.vectorStore.setEmbedding(target);
+      this.resumeMigration();
+      return;
+    }
+
+    this.cancelMigration();
+    this.migration = {
+      embedding: target,
+      vectorStore: new VectorStore({ embedding: target }),
+      checkpoints: new Map(),
+      migrated: new Set(),
+      controller: new AbortController(),
+      status: { embeddingModel, state: 'paused', completed: 0, total: this.vectorStore.getStats().totalChunks },
+      running: null,
+    };
+    this.resumeMigration();
+  }
+
+  /**
+   * Continue a paused or failed migration from where it stopped; resolves when it stops again
+   */
+  resumeMigration(): Promise<void> {
+    const migration = this.migration;
+    if (!migration) {
+      return Promise.resolve();
+    }
+    if (!migration.running) {
+      if (migration.controller.signal.aborted) {
+        migration.controller = new AbortController();
+      }
+      migration.running = this.migrate(migration).finally(() => {
+        migration.running = null;
+      });
+    }
+    return migration.running;
+  }
+
+  /**
+   * Stop a migration, keeping what it has embedded for when it is resumed
+   */
+  pauseMigration(): void {
+    this.migration?.controller.abort();
+  }
+
+  /**
+   * Give up on moving to another model; the current index stays in use
+   */
+  cancelMigration(): void {
+    const migration = this.migration;
+    if (migration) {
+      this.migration = null;
+      migration.controller.abort();
+      this.migrationListeners.forEach(listener => listener(null));
+    }
+  }
+
+  getMigrationStatus(): EmbeddingMigrationStatus | null {
+    return this.migration?.status || null;
+  }
+
+  /**
+   * Be notified of migration progress, and with null once no migration is under way; returns a function
+   * that unsubscribes
+   */
+  onMigrationChange(listener: (status: EmbeddingMigrationStatus | null) => void): () => void {
+    this.migrationListeners.add(listener);
+    return () => {
+      this.migrationListeners.delete(listener);
+    };
+  }
+
+  private async migrate(migration: EmbeddingMigration): Promise<void> {
+    const { signal } = migration.controller;
+    this.updateMigration(migration, { state: 'running', error: undefined });
+    try {
+      while (this.migration === migration) {
+        const pdfId = Array.from(this.extractedPDFs.keys()).find(id => !migration.migrated.has(id));
+        if (pdfId) {
+          await this.migratePDF(pdfId, migration);
+        } else if (this.inFlight.size > 0) {
+          // Documents still being processed with the current model are migrated once they are done
+          await Promise.allSettled(Array.from(this.inFlight.values(), run => run.promise));
+        } else {
+          break;
+        }
+        signal.throwIfAborted();
+      }
+    } catch (error) {
+      this.updateMigration(migration, signal.aborted
+        ? { state: 'paused' }
+        : { state: 'failed', error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+    if (this.migration !== migration) {
+      return;
+    }
+
+    // Every document is in the new index, so queries switch over to it
+    this.vectorStore = migration.vectorStore;
+    this.embedding = migration.embedding;
+    this.checkpoints.clear(); // Left by ingests with the old model, they cannot be resumed with the new one
+    this.updateMigration(migration, { state: 'done' });
+    this.migration = null;
+    this.migrationListeners.forEach(listener => listener(null));
+    console.log(`🔁 Index moved to ${migration.status.embeddingModel}`);
+  }
+
+  /**
+   * Embed one indexed document with the migration's model and add it to the new index
+   */
+  private async migratePDF(pdfId: string, migration: EmbeddingMigration): Promise<void> {
+    const pdfDocument = this.documents.get(pdfId)!;
+    const extractedPDF = this.extractedPDFs.get(pdfId)!;
+    const checkpoint: IngestCheckpoint = migration.checkpoints.get(pdfId) || {
+      extractedPDF,
+      // Only the vectors change; the chunks stay as they are
+      chunks: this.vectorStore.getChunksForPDFs([pdfId]).map(({ embedding, embeddingModel, embeddedAt, ...chunk }) => chunk),
+      parentChunks: this.vectorStore.getParentsForPDF(pdfId),
+      embeddedChunks: [],
+      embeddingModel: migration.status.embeddingModel,
+    };
+    const job: IngestJob = {
+      file: pdfDocument.file,
+      pdfId,
+      pdfName: pdfDocument.name,
+      embedding: migration.embedding,
+      chunking: extractedPDF.chunking,
+      checkpoint,
+    };
+
+    const migratedChunks = migration.vectorStore.getStats().totalChunks;
+    try {
+      const { embeddedChunks, parentChunks, usage } = await this.runJob(job, {
+        signal: migration.controller.signal,
+        onProgress: progress => {
+          if (progress.stage === 'embedding') {
+            this.updateMigration(migration, { completed: migratedChunks + progress.completed });
+          }
+        },
+      });
+      this.recordIngestUsage(pdfDocument, usage);
+      migration.checkpoints.delete(pdfId);
+      // The document may have been removed while it was being embedded
+      if (this.extractedPDFs.has(pdfId)) {
+        migration.vectorStore.addChunks(embeddedChunks, parentChunks);
+        migration.migrated.add(pdfId);
+      }
+    } catch (error) {
+      if (error instanceof IngestFailedError) {
+        this.recordIngestUsage(pdfDocument, error.usage);
+        if (error.checkpoint) {
+          migration.checkpoints.set(pdfId, error.checkpoint);
+        }
+      }
+      throw error;
+    }
+    this.updateMigration(migration, {
+      completed: migration.vectorStore.getStats().totalChunks,
+      total: this.vectorStore.getStats().totalChunks,
+    });
+  }
+
+  private updateMigration(migration: EmbeddingMigration, update: Partial<EmbeddingMigrationStatus>): void {
+    if (this.migration !== migration) {
+      return;
+    }
+    migration.status = { ...migration.status, ...update };
+    this.migrationListeners.forEach(listener => listener(migration.status));
+  }
+
+  /**
+   * Change the monthly budget without rebuilding the index; undefined removes the cap
+   */
+  setMonthlyBudget(budgetUsd?: number): void {
+    this.config = { ...this.config, monthlyBudgetUsd: budgetUsd };
   }
 
   /**
@@ -450,10 +949,12 @@ Answer:`;
   getStats(): {
     totalPDFs: number;
     totalChunks: number;
+    duplicateChunks: number; // Chunks collapsed into a near-identical chunk at query time
     pdfs: Array<{
       id: string;
       name: string;
       chunks: number;
+      chunking?: ChunkingSettings;
     }>;
   } {
     const vectorStats = this.vectorStore.getStats();
@@ -461,11 +962,13 @@ Answer:`;
       id: pdf.id,
       name: pdf.name,
       chunks: vectorStats.chunksPerPDF[pdf.id] || 0,
+      chunking: pdf.chunking,
     }));
 
     return {
       totalPDFs: vectorStats.totalPDFs,
       totalChunks: vectorStats.totalChunks,
+      duplicateChunks: vectorStats.duplicateChunks,
       pdfs,
     };
   }
@@ -477,6 +980,23 @@ Answer:`;
     return this.extractedPDFs.has(pdfId);
   }
 
+  /**
+   * Get the extraction result of a processed PDF
+   */
+  getExtractedPDF(pdfId: string): ExtractedPDF | undefined {
+    return this.extractedPDFs.get(pdfId);
+  }
+
+  /**
+   * Be notified whenever a PDF finishes processing; returns a function that unsubscribes
+   */
+  onPDFProcessed(listener: (pdfId: string) => void): () => void {
+    this.processedListeners.add(listener);
+    return () => {
+      this.processedListeners.delete(listener);
+    };
+  }
+
   /**
    * Get processed PDFs
    */
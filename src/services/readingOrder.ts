@@ -0,0 +1,266 @@
+import { LayoutAnalyzer, TextLine, BoundingBox, Interval } from './layoutAnalyzer';
+
+export type ReadingOrderMode = 'layout' | 'raw';
+
+export type RegionRole = 'body' | 'sidebar' | 'pull-quote';
+
+export interface LayoutRegion {
+  role: RegionRole;
+  column: number; // Left-to-right index of the column the region sits in
+  lines: TextLine[];
+  bbox: BoundingBox;
+}
+
+export class ReadingOrderAnalyzer {
+  private static readonly COLUMN_GAP_RATIO = 1.5; // Horizontal gap that splits a line into fragments, in font sizes
+  private static readonly MIN_GUTTER = 8; // Narrowest whitespace strip treated as a column gutter, in points
+  private static readonly BAND_GAP_RATIO = 0.5; // Vertical gap that separates horizontal bands, in font sizes
+  private static readonly SIDEBAR_WIDTH_RATIO = 0.3; // Columns narrower than this share of the region are sidebars
+  private static readonly PULL_QUOTE_FONT_RATIO = 1.3; // Font size relative to body text that marks a pull quote
+  private static readonly MAX_PULL_QUOTE_LINES = 4;
+
+  /**
+   * Reorder the lines of a page into human reading order.
+   * Body regions come first, followed by sidebars and pull quotes.
+   */
+  static order(lines: TextLine[], pageWidth: number): LayoutRegion[] {
+    const fragments = lines.flatMap(line => this.splitIntoFragments(line));
+    if (fragments.length === 0) {
+      return [];
+    }
+
+    const bodyFontSize = this.bodyFontSize(fragments);
+    const regions: LayoutRegion[] = [];
+    this.cut(fragments, bodyFontSize, 0, pageWidth, regions);
+
+    this.markPullQuotes(regions, bodyFontSize);
+
+    const rank: Record<RegionRole, number> = { 'body': 0, 'sidebar': 1, 'pull-quote': 2 };
+    return regions
+      .map((region, index) => ({ region, index }))
+      .sort((a, b) => rank[a.region.role] - rank[b.region.role] || a.index - b.index)
+      .map(({ region }) => region);
+  }
+
+  /**
+   * Wrap raw stream-order lines in a single body region
+   */
+  static rawRegions(lines: TextLine[]): LayoutRegion[] {
+    if (lines.length === 0) {
+      return [];
+    }
+
+    return [{
+      role: 'body',
+      column: 0,
+      lines,
+      bbox: LayoutAnalyzer.unionBoxes(lines.map(line => line.bbox)),
+    }];
+  }
+
+  /**
+   * Split a line at gaps wide enough to be a column gutter
+   */
+  private static splitIntoFragments(line: TextLine): TextLine[] {
+    const fragments: TextLine[] = [];
+    let current = [line.items[0]];
+
+    for (let i = 1; i < line.items.length; i++) {
+      const previous = line.items[i - 1];
+      const item = line.items[i];
+      const gap = item.bbox.x - (previous.bbox.x + previous.bbox.width);
+
+      if (gap > Math.max(previous.fontSize, item.fontSize) * this.COLUMN_GAP_RATIO) {
+        fragments.push(LayoutAnalyzer.createLine(current));
+        current = [item];
+      } else {
+        current.push(item);
+      }
+    }
+    fragments.push(LayoutAnalyzer.createLine(current));
+
+    return fragments.filter(fragment => fragment.text.length > 0);
+  }
+
+  /**
+   * Recursive XY-cut: split by column gutters first, then by horizontal bands
+   */
+  private static cut(
+    fragments: TextLine[],
+    bodyFontSize: number,
+    column: number,
+    regionWidth: number,
+    regions: LayoutRegion[],
+    role: RegionRole = 'body'
+  ): void {
+    const columns = this.splitColumns(fragments);
+    if (columns.length > 1) {
+      const widths = columns.map(group => LayoutAnalyzer.unionBoxes(group.map(f => f.bbox)).width);
+      const widest = Math.max(...widths);
+
+      columns.forEach((group, index) => {
+        const isSidebar = widths[index] < widest && widths[index] < regionWidth * this.SIDEBAR_WIDTH_RATIO;
+        this.cut(group, bodyFontSize, column + index, widths[index], regions, isSidebar ? 'sidebar' : role);
+      });
+      return;
+    }
+
+    const bands = this.splitBands(fragments, bodyFontSize);
+    if (bands.length > 1) {
+      bands.forEach(band => this.cut(band, bodyFontSize, column, regionWidth, regions, role));
+      return;
+    }
+
+    const ordered = [...fragments].sort((a, b) => b.baseline - a.baseline || a.bbox.x - b.bbox.x);
+    regions.push({
+      role,
+      column,
+      lines: ordered,
+      bbox: LayoutAnalyzer.unionBoxes(ordered.map(fragment => fragment.bbox)),
+    });
+  }
+
+  /**
+   * Split fragments into columns separated by full-height gutters
+   */
+  private static splitColumns(fragments: TextLine[]): TextLine[][] {
+    const gutters = this.findGutters(fragments);
+    if (gutters.length === 0) {
+      return [fragments];
+    }
+
+    const columns: TextLine[][] = Array.from({ length: gutters.length + 1 }, () => []);
+    fragments.forEach(fragment => {
+      const index = gutters.filter(gutter => fragment.bbox.x >= gutter.end).length;
+      columns[index].push(fragment);
+    });
+
+    return columns.filter(group => group.length > 0);
+  }
+
+  /**
+   * Split fragments into horizontal bands, keeping bands that share a gutter together
+   * so paragraph breaks inside a multi-column area do not cut across the columns
+   */
+  private static splitBands(fragments: TextLine[], bodyFontSize: number): TextLine[][] {
+    const intervals = LayoutAnalyzer.mergeIntervals(
+      fragments.map(fragment => ({ start: -(fragment.bbox.y + fragment.bbox.height), end: -fragment.bbox.y }))
+    );
+    const minGap = bodyFontSize * this.BAND_GAP_RATIO;
+
+    const bands: TextLine[][] = [];
+    let bandStart = intervals[0];
+    const bounds: Interval[] = [];
+    for (let i = 1; i < intervals.length; i++) {
+      if (intervals[i].start - intervals[i - 1].end > minGap) {
+        bounds.push({ start: bandStart.start, end: intervals[i - 1].end });
+        bandStart = intervals[i];
+      }
+    }
+    bounds.push({ start: bandStart.start, end: intervals[intervals.length - 1].end });
+
+    bounds.forEach(bound => {
+      bands.push(fragments.filter(fragment => {
+        const top = -(fragment.bbox.y + fragment.bbox.height);
+        return top >= bound.start && top <= bound.end;
+      }));
+    });
+
+    // Merge neighbouring bands whose column gutters line up
+    const merged: TextLine[][] = [];
+    let previousGutters: Interval[] = [];
+    bands.filter(band => band.length > 0).forEach(band => {
+      const gutters = this.findGutters(band);
+      const shared = this.intersectGutters(previousGutters, gutters);
+
+      if (merged.length > 0 && shared.length > 0) {
+        merged[merged.length - 1].push(...band);
+        previousGutters = shared;
+      } else {
+        merged.push([...band]);
+        previousGutters = gutters;
+      }
+    });
+
+    return merged;
+  }
+
+  /**
+   * Find vertical whitespace strips that no fragment crosses
+   */
+  private static findGutters(fragments: TextLine[]): Interval[] {
+    if (fragments.length < 2) {
+      return [];
+    }
+
+    const intervals = LayoutAnalyzer.mergeIntervals(
+      fragments.map(fragment => ({ start: fragment.bbox.x, end: fragment.bbox.x + fragment.bbox.width }))
+    );
+
+    const gutters: Interval[] = [];
+    for (let i = 1; i < intervals.length; i++) {
+      const gap = { start: intervals[i - 1].end, end: intervals[i].start };
+      if (gap.end - gap.start >= this.MIN_GUTTER) {
+        gutters.push(gap);
+      }
+    }
+
+    return gutters;
+  }
+
+  /**
+   * Gutters present in both lists
+   */
+  private static intersectGutters(a: Interval[], b: Interval[]): Interval[] {
+    const shared: Interval[] = [];
+
+    a.forEach(first => {
+      b.forEach(second => {
+        const start = Math.max(first.start, second.start);
+        const end = Math.min(first.end, second.end);
+        if (end - start >= this.MIN_GUTTER) {
+          shared.push({ start, end });
+        }
+      });
+    });
+
+    return shared;
+  }
+
+  /**
+   * Mark short, large-font regions set inside body text as pull quotes
+   */
+  private static markPullQuotes(regions: LayoutRegion[], bodyFontSize: number): void {
+    regions.forEach((region, index) => {
+      if (region.role !== 'body' || region.lines.length < 2 || region.lines.length > this.MAX_PULL_QUOTE_LINES) {
+        return;
+      }
+
+      const fontSize = Math.max(...region.lines.map(line => line.fontSize));
+      if (fontSize < bodyFontSize * this.PULL_QUOTE_FONT_RATIO) {
+        return;
+      }
+
+      const sameColumn = (other: LayoutRegion) => other.role === 'body' && other.column === region.column;
+      const hasTextAbove = regions.slice(0, index).some(sameColumn);
+      const hasTextBelow = regions.slice(index + 1).some(sameColumn);
+
+      if (hasTextAbove && hasTextBelow) {
+        region.role = 'pull-quote';
+      }
+    });
+  }
+
+  /**
+   * Font size covering the most characters on the page
+   */
+  private static bodyFontSize(fragments: TextLine[]): number {
+    const weights = new Map<number, number>();
+
+    fragments.forEach(fragment => {
+      weights.set(fragment.fontSize, (weights.get(fragment.fontSize) || 0) + fragment.text.length);
+    });
+
+    return [...weights.entries()].sort((a, b) => b[1] - a[1])[0][0] || 1;
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * An HTTP request that failed with a status code; carries the server's Retry-After hint when it sent one
+ */
+export class HttpRequestError extends Error {
+  constructor(message: string, public readonly status: number, public readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'HttpRequestError';
+  }
+}
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Retries transient failures (rate limits, server errors, dropped connections) with exponential backoff
+ * and full jitter, so clients that failed together do not retry together
+ */
+export class RetryPolicy {
+  private static readonly MAX_ATTEMPTS = 6;
+  private static readonly BASE_DELAY_MS = 500;
+  private static readonly MAX_DELAY_MS = 30_000;
+  private static readonly RETRYABLE_STATUSES = new Set([408, 409, 425, 429, 500, 502, 503, 504]);
+
+  static async run<T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+    const maxAttempts = options.maxAttempts ?? this.MAX_ATTEMPTS;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        if (options.signal?.aborted || attempt >= maxAttempts || !this.isRetryable(error)) {
+          throw error;
+        }
+        const delayMs = this.delayFor(error, attempt, options);
+        options.onRetry?.(error, attempt, delayMs);
+        await this.sleep(delayMs, options.signal);
+      }
+    }
+  }
+
+  static isRetryable(error: unknown): boolean {
+    if (error instanceof HttpRequestError) {
+      return this.RETRYABLE_STATUSES.has(error.status);
+    }
+    // fetch rejects with a TypeError when the connection fails
+    return error instanceof TypeError;
+  }
+
+  /**
+   * The server's requested wait, from OpenAI's retry-after-ms or the standard Retry-After (seconds or a date)
+   */
+  static retryAfter(headers: Headers): number | undefined {
+    const milliseconds = Number(headers.get('retry-after-ms'));
+    if (milliseconds > 0) {
+      return milliseconds;
+    }
+
+    const value = headers.get('retry-after');
+    if (!value) {
+      return undefined;
+    }
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Wait for a time, rejecting as soon as the signal aborts
+   */
+  static sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private static delayFor(error: unknown, attempt: number, options: RetryOptions): number {
+    const baseDelayMs = options.baseDelayMs ?? this.BASE_DELAY_MS;
+    const maxDelayMs = options.maxDelayMs ?? this.MAX_DELAY_MS;
+
+    // The server knows when capacity frees up; a little jitter still spreads out the waiting clients
+    if (error instanceof HttpRequestError && error.retryAfterMs !== undefined) {
+      return error.retryAfterMs + Math.random() * baseDelayMs;
+    }
+    return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  }
+}
@@ -0,0 +1,80 @@
+import { ChunkingStrategy, ChunkingSettings, ChunkingContext } from './chunkingStrategy';
+import { PageFlow } from './pageFlow';
+import { SentenceChunkingStrategy } from './sentenceChunker';
+import { EmbeddingService } from './embeddingService';
+import { TextSpan, TextSpans } from './textSpans';
+import { Tokenizer } from './tokenizer';
+
+/**
+ * Embeds every sentence and starts a new chunk where the topic shifts, i.e. where the similarity of
+ * adjacent sentences drops into the document's lowest percentile
+ */
+export class SemanticChunkingStrategy implements ChunkingStrategy {
+  readonly name = 'semantic';
+  readonly label = 'Semantic';
+
+  private static readonly MIN_CHUNK_TOKENS = 25;
+
+  async chunk(flow: PageFlow, settings: ChunkingSettings, context: ChunkingContext): Promise<TextSpan[]> {
+    if (!context.embed) {
+      console.warn('Semantic chunking needs embeddings; falling back to sentence chunking');
+      return new SentenceChunkingStrategy().chunk(flow, settings);
+    }
+
+    // Sentences longer than a chunk are cut first, so every unit fits
+    const sentences = TextSpans.sentences(flow.text).flatMap(sentence =>
+      Tokenizer.count(sentence.text) > settings.maxTokens
+        ? TextSpans.windows(flow.text, sentence.start, sentence.end, settings.maxTokens, settings.maxTokens)
+        : [sentence]
+    );
+
+    const embeddings = await context.embed(sentences.map(sentence => sentence.text));
+    context.signal?.throwIfAborted();
+
+    // Similarity between each sentence and the one before it
+    const similarities = sentences.map((_, index) =>
+      index === 0 ? 1 : EmbeddingService.calculateSimilarity(embeddings[index - 1], embeddings[index])
+    );
+    const threshold = SemanticChunkingStrategy.percentile(similarities.slice(1), settings.breakpointPercentile);
+
+    const minTokens = Math.min(SemanticChunkingStrategy.MIN_CHUNK_TOKENS, Math.floor(settings.maxTokens / 4));
+    const chunks: TextSpan[] = [];
+    let current: { start: number; end: number; tokens: number } | null = null;
+    const flush = (chunk: { start: number; end: number }) => {
+      const span = TextSpans.span(flow.text, chunk.start, chunk.end);
+      if (span) {
+        chunks.push(span);
+      }
+    };
+
+    for (const [index, sentence] of sentences.entries()) {
+      const sentenceTokens = Tokenizer.count(sentence.text);
+      if (current) {
+        const topicShift = similarities[index] < threshold && current.tokens >= minTokens;
+        if (topicShift || current.tokens + sentenceTokens > settings.maxTokens) {
+          flush(current);
+          current = null;
+        }
+      }
+      if (current) {
+        current.end = sentence.end;
+        current.tokens += sentenceTokens;
+      } else {
+        current = { start: sentence.start, end: sentence.end, tokens: sentenceTokens };
+      }
+    }
+    if (current) {
+      flush(current);
+    }
+
+    return chunks;
+  }
+
+  private static percentile(values: number[], percentile: number): number {
+    if (values.length === 0) {
+      return -Infinity;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.floor((percentile / 100) * sorted.length))];
+  }
+}
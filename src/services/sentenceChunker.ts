@@ -0,0 +1,15 @@
+import { ChunkingStrategy, ChunkingSettings } from './chunkingStrategy';
+import { PageFlow } from './pageFlow';
+import { TextSpan, TextSpans } from './textSpans';
+
+/**
+ * Packs whole sentences up to the token limit, starting each chunk with the last sentences of the previous one
+ */
+export class SentenceChunkingStrategy implements ChunkingStrategy {
+  readonly name = 'sentence';
+  readonly label = 'Sentences';
+
+  async chunk(flow: PageFlow, settings: ChunkingSettings): Promise<TextSpan[]> {
+    return TextSpans.pack(flow.text, TextSpans.sentences(flow.text), settings.maxTokens, settings.overlapTokens);
+  }
+}
@@ -0,0 +1,141 @@
+// Closing quotes and brackets, note markers ("[^3]") and numeric citations ("[12]", "[3, 4]") stay with the sentence they end
+const CLOSERS = String.raw`(?:\[\^[^\]\s]{1,3}\]|\[\d+(?:[,–-]\s?\d+)*\]|["'”’»)\]」』）】〕])*`;
+
+// Sentence ends: Latin, Arabic, Devanagari and Ethiopic punctuation before a space, and CJK full stops anywhere
+const TERMINATOR = new RegExp(
+  String.raw`(?:…|[.!?‽]+|[؟۔।॥።]+)${CLOSERS}(?=\s|$)|[。！？｡]+${CLOSERS}`,
+  'g'
+);
+
+// Abbreviations that never end a sentence: titles, Latin, references and legal citation forms
+const ABBREVIATIONS = new Set([
+  'mr.', 'mrs.', 'ms.', 'dr.', 'prof.', 'sr.', 'jr.', 'st.', 'mt.', 'gen.', 'col.', 'lt.', 'rev.', 'hon.',
+  'e.g.', 'i.e.', 'cf.', 'viz.', 'vs.', 'v.', 'al.', 'ca.', 'approx.', 'esp.',
+  'fig.', 'figs.', 'eq.', 'eqs.', 'tab.', 'ch.', 'chap.', 'sec.', 'secs.', 'vol.', 'vols.', 'no.', 'nos.',
+  'p.', 'pp.', 'para.', 'paras.', 'ed.', 'eds.', 'trans.', 'ref.', 'refs.', 'ibid.', 'op.', 'cit.',
+  'art.', 'arts.', 'cl.', 'subsec.', 'reg.', 'regs.', 'amend.', 'const.', 'stat.', 'supp.', 'ct.', 'cir.',
+  'app.', 'dist.', 'cal.', 'n.y.', 'l.', 'rptr.', 'u.s.', 'u.s.c.', 'c.f.r.', 'f.', 'f.2d', 'f.3d', 'f.4th',
+  's.', 'u.k.', 'jan.', 'feb.', 'mar.', 'apr.', 'jun.', 'jul.', 'aug.', 'sep.', 'sept.', 'oct.', 'nov.', 'dec.',
+]);
+
+// Abbreviations that end a sentence when the next word is capitalised: "..., and so on etc. The next"
+const SOMETIMES_FINAL = new Set(['etc.', 'inc.', 'ltd.', 'co.', 'corp.', 'llc.', 'bros.']);
+
+/**
+ * Finds where sentences end, right after their punctuation. Candidates come from punctuation and, when the
+ * runtime has it, Intl.Segmenter; a boundary after an abbreviation, an initial or a list number, or before
+ * a lowercase word, is dropped.
+ */
+export class SentenceSegmenter {
+  private static readonly LOOKBEHIND = 64; // Characters before a candidate that can decide it: closers and the last word
+  private static segmenter: Intl.Segmenter | null | undefined;
+
+  /**
+   * Offsets between start and end where a sentence ends, in order
+   */
+  static boundaries(text: string, start: number = 0, end: number = text.length): number[] {
+    return this.candidates(text, start, end).filter(offset => this.isBoundary(text, offset, start, end));
+  }
+
+  /**
+   * Offsets where a sentence may end, in order, excluding the end of the range
+   */
+  private static candidates(text: string, start: number, end: number): number[] {
+    const slice = text.slice(start, end);
+    const offsets = new Set<number>();
+
+    // Blank lines always separate sentences, so headings and list items do not run into the next paragraph
+    for (const match of slice.matchAll(/\n\s*\n/g)) {
+      offsets.add(start + match.index!);
+    }
+
+    for (const match of slice.matchAll(TERMINATOR)) {
+      offsets.add(start + match.index! + match[0].length);
+    }
+
+    // The segmenter knows scripts the punctuation rules do not
+    const segmenter = this.getSegmenter();
+    if (segmenter) {
+      // Lines are wrapped by layout, not meaning; only blank lines should count as breaks for the segmenter
+      const unwrapped = slice.replace(/(?<!\n[^\S\n]*)\n(?![^\S\n]*\n)/g, ' ');
+      const closing = new RegExp(CLOSERS, 'y');
+      // A paragraph at a time: the segmenter slows down quadratically on long texts, and blank lines end sentences anyway
+      let paragraphStart = 0;
+      unwrapped.split(/(\n\s*\n)/).forEach((paragraph, index) => {
+        if (index % 2 === 0) {
+          for (const segment of segmenter.segment(paragraph)) {
+            // The segmenter may put a citation such as "[12]" right after the full stop into the next sentence
+            const sentenceEnd = paragraphStart + segment.index + segment.segment.trimEnd().length;
+            closing.lastIndex = sentenceEnd;
+            offsets.add(start + sentenceEnd + closing.exec(slice)![0].length);
+          }
+        }
+        paragraphStart += paragraph.length;
+      });
+    }
+
+    return [...offsets].filter(offset => offset > start && offset < end).sort((a, b) => a - b);
+  }
+
+  /**
+   * Whether a candidate boundary really ends a sentence. Only the text right around it is looked at,
+   * so a long range is not sliced again for every candidate.
+   */
+  private static isBoundary(text: string, offset: number, start: number, end: number): boolean {
+    const whitespace = /\s*/y;
+    whitespace.lastIndex = offset;
+    whitespace.exec(text);
+    const nextAt = Math.min(whitespace.lastIndex, end);
+    if (/\n\s*\n/.test(text.slice(offset, nextAt))) {
+      return true;
+    }
+    if (nextAt === end) {
+      return false;
+    }
+    const next = text[nextAt];
+
+    const from = Math.max(start, offset - this.LOOKBEHIND);
+    const before = text.slice(from, offset);
+
+    const terminated = before.replace(new RegExp(`${CLOSERS}$`), '');
+    if (/[。！？｡]$/.test(terminated)) {
+      return true;
+    }
+    // Sentences start with a capital, digit, quote or bracket, never a lowercase word: "e.g. see", "approx. three"
+    if (/\p{Ll}/u.test(next)) {
+      return false;
+    }
+    if (!/[^.]\.$/.test(terminated)) {
+      return /[.!?…‽؟۔।॥።]$/.test(terminated);
+    }
+
+    const word = terminated.match(/(\S+)$/)?.[1].replace(/^[("'“‘[]+/, '') ?? '';
+    const lower = word.toLowerCase();
+    if (ABBREVIATIONS.has(lower)) {
+      return false;
+    }
+    if (SOMETIMES_FINAL.has(lower)) {
+      return /\p{Lu}/u.test(next);
+    }
+    // Initials and dotted abbreviations: "J. Smith", "U.S.C.", "F. Supp."
+    if (/^(?:\p{L}\.)+$/u.test(word)) {
+      return false;
+    }
+    // List and section numbers at the start of a line: "2.", "2.1.", "IV."; a longer line holds more than a number
+    const lineStart = before.lastIndexOf('\n') + 1;
+    const atLineStart = lineStart > 0 || from === start;
+    if (atLineStart && /^\s*(?:\d+(?:\.\d+)*|[IVXLC]+|[a-z])\.$/.test(before.slice(lineStart))) {
+      return false;
+    }
+    return true;
+  }
+
+  private static getSegmenter(): Intl.Segmenter | null {
+    if (this.segmenter === undefined) {
+      this.segmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+        ? new Intl.Segmenter(undefined, { granularity: 'sentence' })
+        : null;
+    }
+    return this.segmenter;
+  }
+}
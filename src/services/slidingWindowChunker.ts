@@ -0,0 +1,15 @@
+import { ChunkingStrategy, ChunkingSettings } from './chunkingStrategy';
+import { PageFlow } from './pageFlow';
+import { TextSpan, TextSpans } from './textSpans';
+
+/**
+ * Windows of the maximum size that move forward by the stride, so every passage appears in several chunks
+ */
+export class SlidingWindowChunkingStrategy implements ChunkingStrategy {
+  readonly name = 'sliding-window';
+  readonly label = 'Sliding window';
+
+  async chunk(flow: PageFlow, settings: ChunkingSettings): Promise<TextSpan[]> {
+    return TextSpans.windows(flow.text, 0, flow.text.length, settings.maxTokens, settings.strideTokens);
+  }
+}
@@ -0,0 +1,116 @@
+import { ExtractedText } from './textExtractor';
+import { LayoutAnalyzer, PositionedTextItem, TextLine, BoundingBox } from './layoutAnalyzer';
+import { TextNormalizer } from './textNormalizer';
+import { TextChunk } from './textChunker';
+
+// A rectangle on a page in percentages of the page size, the shape the viewer's highlight plugin draws
+export interface HighlightArea {
+  pageIndex: number; // 0-based
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// A text item covered by a range, with the covered characters of its text
+export interface LocatedItem {
+  item: PositionedTextItem;
+  line: TextLine;
+  start: number;
+  end: number;
+}
+
+/**
+ * Maps ranges of page text and chunks back to the pdf.js text items they came from and the rectangles
+ * they cover, so a source can be drawn on the page
+ */
+export class SourceLocator {
+  /**
+   * Text items covering a range of the (normalized) page text, in reading order
+   */
+  static itemsForRange(page: ExtractedText, start: number, end: number): LocatedItem[] {
+    // Chunk offsets are in the normalized text; the layout was composed before normalization
+    const from = TextNormalizer.toOriginalOffset(page, start);
+    const to = TextNormalizer.toOriginalOffset(page, end);
+
+    return LayoutAnalyzer.itemRanges(page.layout.paragraphs)
+      .filter(range => range.end > from && range.start < to)
+      .map(range => ({
+        item: range.item,
+        line: range.line,
+        start: Math.max(from, range.start) - range.start,
+        end: Math.min(to, range.end) - range.start,
+      }));
+  }
+
+  /**
+   * Rectangles covering a range of the page text, one per line
+   */
+  static areasForRange(page: ExtractedText, start: number, end: number): HighlightArea[] {
+    const { width, height } = page.layout;
+    if (width <= 0 || height <= 0) {
+      return [];
+    }
+
+    // The covered part of an item is estimated from its share of the characters
+    const lines = new Map<TextLine, BoundingBox[]>();
+    this.itemsForRange(page, start, end).forEach(({ item, line, start: itemStart, end: itemEnd }) => {
+      const length = Math.max(item.text.length, 1);
+      const box = {
+        ...item.bbox,
+        x: item.bbox.x + (item.bbox.width * itemStart) / length,
+        width: (item.bbox.width * (itemEnd - itemStart)) / length,
+      };
+      lines.set(line, [...(lines.get(line) || []), box]);
+    });
+
+    return Array.from(lines.values()).map(boxes => this.toArea(LayoutAnalyzer.unionBoxes(boxes), page));
+  }
+
+  /**
+   * Rectangles covering a chunk on every page it runs across. A range of the chunk text, such as a
+   * sentence within it, narrows the result to that part.
+   */
+  static areasForChunk(chunk: TextChunk, pages: ExtractedText[], range?: { start: number; end: number }): HighlightArea[] {
+    const pageOf = (pageNumber: number) => pages.find(page => page.pageNumber === pageNumber);
+
+    // Tables are kept out of the page text, so they are found by their own box
+    if (chunk.metadata.contentType === 'table') {
+      const page = pageOf(chunk.pageNumber);
+      const table = page?.tables.find(candidate => candidate.offset === chunk.metadata.startChar);
+      return page && table && page.layout.width > 0 ? [this.toArea(table.bbox, page)] : [];
+    }
+
+    // Each page's part appears in the chunk text in order, separated by the page break
+    let cursor = 0;
+    return (chunk.metadata.pageSpans || []).flatMap(span => {
+      const page = pageOf(span.pageNumber);
+      if (!page) {
+        return [];
+      }
+      const at = chunk.text.indexOf(page.text.slice(span.startChar, span.endChar), cursor);
+      if (at < 0) {
+        return [];
+      }
+      cursor = at + (span.endChar - span.startChar);
+      if (!range) {
+        return this.areasForRange(page, span.startChar, span.endChar);
+      }
+
+      const start = Math.max(range.start - at, 0);
+      const end = Math.min(range.end - at, span.endChar - span.startChar);
+      return start < end ? this.areasForRange(page, span.startChar + start, span.startChar + end) : [];
+    });
+  }
+
+  private static toArea(box: BoundingBox, page: ExtractedText): HighlightArea {
+    const { width, height } = page.layout;
+    return {
+      pageIndex: page.pageNumber - 1,
+      left: (box.x / width) * 100,
+      top: ((height - box.y - box.height) / height) * 100,
+      width: (box.width / width) * 100,
+      height: (box.height / height) * 100,
+    };
+  }
+}
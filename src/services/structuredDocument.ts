@@ -0,0 +1,178 @@
+import { ExtractedPDF, ExtractedText } from './textExtractor';
+import { PageLayout, BoundingBox } from './layoutAnalyzer';
+import { DocumentStructure, OutlineEntry, SectionStart } from './documentStructure';
+import { ExtractedTable } from './tableDetector';
+import { BibliographyParser } from './bibliographyParser';
+import { DocumentFormat } from '../types';
+
+// Format-neutral content produced by the DOCX, EPUB, HTML, Markdown and plain text parsers
+export type DocumentBlock =
+  | { type: 'heading'; level: number; text: string } // Level 1 is the top level
+  | { type: 'paragraph'; text: string }
+  | { type: 'table'; rows: string[][] }
+  | { type: 'page-break' }; // Explicit logical page boundary, e.g. between EPUB chapters
+
+const EMPTY_BOX: BoundingBox = { x: 0, y: 0, width: 0, height: 0 };
+
+export class StructuredDocument {
+  private static readonly MAX_PAGE_LENGTH = 12000; // Characters before a long section is split across pages
+
+  /**
+   * Lay out parsed blocks as logical pages (chapters or sections) in the same shape as an extracted PDF
+   */
+  static toExtractedPDF(blocks: DocumentBlock[], id: string, name: string, format: DocumentFormat): ExtractedPDF {
+    const outline: OutlineEntry[] = [];
+    const headings: { level: number; title: string }[] = [];
+    const extractedText: ExtractedText[] = [];
+
+    this.paginate(blocks).forEach((pageBlocks, index) => {
+      const pageNumber = index + 1;
+      const sectionPath = DocumentStructure.sectionAtPageStart(outline, pageNumber);
+      const sectionStarts: SectionStart[] = [];
+      const tables: ExtractedTable[] = [];
+      let text = '';
+
+      const append = (blockText: string): number => {
+        const offset = text ? text.length + 2 : 0;
+        text = text ? `${text}\n\n${blockText}` : blockText;
+        return offset;
+      };
+
+      pageBlocks.forEach(block => {
+        if (block.type === 'table') {
+          tables.push(this.toTable(block.rows, text.length));
+        } else if (block.type === 'heading') {
+          while (headings.length > 0 && headings[headings.length - 1].level >= block.level) {
+            headings.pop();
+          }
+          headings.push({ level: block.level, title: block.text });
+
+          const path = headings.map(heading => heading.title);
+          outline.push({ title: block.text, path, level: headings.length - 1, pageNumber });
+          sectionStarts.push({ path, offset: append(block.text) });
+        } else if (block.type === 'paragraph') {
+          append(block.text);
+        }
+      });
+
+      extractedText.push({
+        text,
+        pageNumber,
+        metadata: { x: 0, y: 0, width: 0, height: 0 },
+        layout: this.emptyLayout(),
+        source: 'markup',
+        sectionPath,
+        sectionStarts,
+        tables,
+        footnotes: [],
+      });
+    });
+
+    return {
+      id,
+      name,
+      format,
+      totalPages: extractedText.length,
+      extractedText,
+      extractedAt: new Date(),
+      readingOrder: 'layout',
+      removedText: [],
+      outline,
+      pageLabels: null,
+      bibliography: BibliographyParser.parse(extractedText),
+      annotations: [],
+      formFields: [],
+    };
+  }
+
+  /**
+   * Split blocks into logical pages: at explicit breaks, otherwise before each top-level heading
+   */
+  private static paginate(blocks: DocumentBlock[]): DocumentBlock[][] {
+    const content = blocks.filter(block => block.type !== 'page-break');
+    const hasBreaks = content.length < blocks.length;
+
+    // A lone title heading does not make chapters; split at the highest level that repeats
+    const levelCounts = new Map<number, number>();
+    content.forEach(block => {
+      if (block.type === 'heading') {
+        levelCounts.set(block.level, (levelCounts.get(block.level) || 0) + 1);
+      }
+    });
+    const splitLevel = [...levelCounts.keys()].sort((a, b) => a - b).find(level => levelCounts.get(level)! > 1);
+
+    const pages: DocumentBlock[][] = [];
+    let current: DocumentBlock[] = [];
+    const flush = () => {
+      if (current.length > 0) {
+        pages.push(...this.splitLongPage(current));
+      }
+      current = [];
+    };
+
+    blocks.forEach(block => {
+      if (block.type === 'page-break') {
+        flush();
+        return;
+      }
+      if (!hasBreaks && splitLevel !== undefined && block.type === 'heading' && block.level <= splitLevel) {
+        flush();
+      }
+      current.push(block);
+    });
+    flush();
+
+    return pages;
+  }
+
+  /**
+   * Break an oversized page at block boundaries so page citations stay meaningful
+   */
+  private static splitLongPage(blocks: DocumentBlock[]): DocumentBlock[][] {
+    const pages: DocumentBlock[][] = [];
+    let current: DocumentBlock[] = [];
+    let length = 0;
+
+    blocks.forEach(block => {
+      const blockLength = this.blockLength(block);
+      if (current.length > 0 && length + blockLength > this.MAX_PAGE_LENGTH) {
+        pages.push(current);
+        current = [];
+        length = 0;
+      }
+      current.push(block);
+      length += blockLength;
+    });
+    if (current.length > 0) {
+      pages.push(current);
+    }
+
+    return pages;
+  }
+
+  private static blockLength(block: DocumentBlock): number {
+    switch (block.type) {
+      case 'heading':
+      case 'paragraph':
+        return block.text.length;
+      case 'table':
+        return block.rows.reduce((sum, row) => sum + row.join(' ').length, 0);
+      default:
+        return 0;
+    }
+  }
+
+  private static toTable(rows: string[][], offset: number): ExtractedTable {
+    const columnCount = Math.max(...rows.map(row => row.length));
+    return {
+      rows: rows.map(row => [...row, ...new Array(columnCount - row.length).fill('')]),
+      columnCount,
+      bbox: EMPTY_BOX,
+      offset,
+    };
+  }
+
+  private static emptyLayout(): PageLayout {
+    return { width: 0, height: 0, readingOrder: 'layout', items: [], lines: [], regions: [], paragraphs: [] };
+  }
+}
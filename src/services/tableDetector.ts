@@ -0,0 +1,147 @@
+import { LayoutAnalyzer, TextLine, BoundingBox } from './layoutAnalyzer';
+
+export interface ExtractedTable {
+  rows: string[][]; // First row is treated as the header
+  columnCount: number;
+  bbox: BoundingBox;
+  offset: number; // Character offset in the page text where the table was taken out
+}
+
+export interface TableDetectionResult {
+  tables: Omit<ExtractedTable, 'offset'>[];
+  remainingLines: TextLine[];
+}
+
+export class TableDetector {
+  private static readonly CELL_GAP_RATIO = 1.0; // Horizontal gap that separates cells, in font sizes
+  private static readonly ROW_GAP_RATIO = 2.5; // Baseline distance allowed between rows, in font sizes
+  private static readonly MIN_ROWS = 3;
+  private static readonly MAX_PROSE_CELL_RATIO = 0.3; // Cells this wide (share of page width) look like prose columns
+
+  /**
+   * Find tabular regions among the lines of a page and pull them out of the text flow
+   */
+  static detect(lines: TextLine[], pageWidth: number): TableDetectionResult {
+    const tables: TableDetectionResult['tables'] = [];
+    const tableLines = new Set<TextLine>();
+
+    let run: TextLine[] = [];
+    const flush = () => {
+      const table = this.buildTable(run, pageWidth);
+      if (table) {
+        tables.push(table);
+        run.forEach(line => tableLines.add(line));
+      }
+      run = [];
+    };
+
+    lines.forEach(line => {
+      const previous = run[run.length - 1];
+      const cells = this.splitCells(line);
+      const closeToPrevious = previous && this.isNextRow(previous, line);
+
+      if (cells.length >= 2) {
+        if (!closeToPrevious) {
+          flush();
+        }
+        run.push(line);
+      } else if (closeToPrevious && run.length > 0) {
+        // Single-cell lines inside a table are usually wrapped cell text
+        run.push(line);
+      } else {
+        flush();
+      }
+    });
+    flush();
+
+    return {
+      tables,
+      remainingLines: lines.filter(line => !tableLines.has(line)),
+    };
+  }
+
+  /**
+   * Turn a run of aligned lines into a table, or return null if it does not look tabular
+   */
+  private static buildTable(run: TextLine[], pageWidth: number): TableDetectionResult['tables'][number] | null {
+    // Trailing single-cell lines are ordinary text following the table
+    while (run.length > 0 && this.splitCells(run[run.length - 1]).length < 2) {
+      run = run.slice(0, -1);
+    }
+
+    const rowLines = run.map(line => this.splitCells(line));
+    const multiCellRows = rowLines.filter(cells => cells.length >= 2).length;
+    if (multiCellRows < this.MIN_ROWS) {
+      return null;
+    }
+
+    const columns = LayoutAnalyzer.mergeIntervals(
+      rowLines.flat().map(cell => ({ start: cell.bbox.x, end: cell.bbox.x + cell.bbox.width }))
+    );
+    if (columns.length < 2) {
+      return null;
+    }
+
+    // Two columns of running text also split into aligned "cells"; tables have narrower ones
+    const proseLike = columns.every(column => column.end - column.start > pageWidth * this.MAX_PROSE_CELL_RATIO);
+    if (proseLike) {
+      return null;
+    }
+
+    const rows: string[][] = [];
+    rowLines.forEach(cells => {
+      const row: string[] = new Array(columns.length).fill('');
+      cells.forEach(cell => {
+        const column = columns.findIndex(interval => cell.bbox.x >= interval.start && cell.bbox.x <= interval.end);
+        row[column] = row[column] ? `${row[column]} ${cell.text}` : cell.text;
+      });
+
+      if (cells.length < 2 && rows.length > 0) {
+        // Wrapped text continues the cells of the row above
+        const previousRow = rows[rows.length - 1];
+        row.forEach((text, index) => {
+          if (text) {
+            previousRow[index] = previousRow[index] ? `${previousRow[index]} ${text}` : text;
+          }
+        });
+      } else {
+        rows.push(row);
+      }
+    });
+
+    return {
+      rows,
+      columnCount: columns.length,
+      bbox: LayoutAnalyzer.unionBoxes(run.map(line => line.bbox)),
+    };
+  }
+
+  /**
+   * Split a line into cells at gaps wider than normal word spacing
+   */
+  private static splitCells(line: TextLine): TextLine[] {
+    const cells: TextLine[] = [];
+    let current = [line.items[0]];
+
+    for (let i = 1; i < line.items.length; i++) {
+      const previous = line.items[i - 1];
+      const item = line.items[i];
+      const gap = item.bbox.x - (previous.bbox.x + previous.bbox.width);
+
+      if (gap > Math.max(previous.fontSize, item.fontSize) * this.CELL_GAP_RATIO) {
+        cells.push(LayoutAnalyzer.createLine(current));
+        current = [item];
+      } else {
+        current.push(item);
+      }
+    }
+    cells.push(LayoutAnalyzer.createLine(current));
+
+    return cells.filter(cell => cell.text.length > 0);
+  }
+
+  private static isNextRow(previous: TextLine, line: TextLine): boolean {
+    const baselineGap = previous.baseline - line.baseline;
+    return baselineGap > 0 && baselineGap <= Math.max(previous.fontSize, line.fontSize, 1) * this.ROW_GAP_RATIO;
+  }
+}
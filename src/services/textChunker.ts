@@ -1,4 +1,14 @@
-import { ExtractedPDF } from './textExtractor';
+import { ExtractedPDF, ExtractedText } from './textExtractor';
+import { ExtractedTable } from './tableDetector';
+import { FormField } from './pdfAnnotationReader';
+import { Bibliography } from './bibliographyParser';
+import { CitationLinker, ChunkCitation } from './citationLinker';
+import { Tokenizer } from './tokenizer';
+import { ChunkingStrategies, ChunkingSettings, ChunkingContext, ChunkingOptions } from './chunkingStrategy';
+import { ParagraphChunkingStrategy } from './paragraphChunker';
+import { PageFlows, PageFlow, PageSpan } from './pageFlow';
+import { TextSpan, TextSpans } from './textSpans';
+import { Footnote } from './footnoteDetector';
 
 export interface TextChunk {
   id: string;
@@ -8,153 +18,387 @@ export interface TextChunk {
   pdfId: string;
   pdfName: string;
   metadata: {
-    startChar: number;
-    endChar: number;
+    startChar: number; // Offset into the text of the start page
+    endChar: number; // Offset into the text of the end page
+    endPageNumber: number; // Last page the chunk covers; later than pageNumber when it runs across a page break
+    endPageLabel?: string;
+    pageSpans: PageSpan[]; // Where the chunk lies on each page it covers; empty for form fields
     wordCount: number;
+    tokenCount: number; // cl100k_base tokens, as counted by the embedding and chat models
     section?: string;
+    sectionPath?: string[]; // Outline path down to the section, when the PDF has an outline
+    pageLabel?: string;
+    contentType?: 'text' | 'table' | 'form' | 'note';
+    citations?: ChunkCitation[]; // In-text citation markers linked to the bibliography
+    footnotes?: string[]; // Markers of the footnotes and endnotes appended to the chunk text
+    noteChunkIds?: string[]; // Referenced notes that did not fit in the chunk, chunked on their own
+    parentId?: string; // Section-level chunk given to the model in place of this one when it matches
+    minhash?: number[]; // MinHash signature of the text, for finding the same passage in other chunks
   };
 }
 
+// Two levels of chunks: small ones to search, and the sections they belong to for context
+export interface ChunkedDocument {
+  chunks: TextChunk[]; // Embedded and searched: text chunks, tables and form fields
+  parents: TextChunk[]; // Not embedded; looked up through parentId
+}
+
+type ChunkKind = 'chunk' | 'section';
+
+// A chunk of text and the chunks of the notes it references that did not fit in it
+interface ChunkWithNotes {
+  span: TextSpan;
+  chunk: TextChunk;
+  notes: TextChunk[];
+}
+
 export class TextChunker {
-  private static readonly MAX_CHUNK_SIZE = 1000; // characters
-  private static readonly OVERLAP_SIZE = 200; // characters
-  private static readonly MIN_CHUNK_SIZE = 100; // characters
+  /**
+   * Chunk text from an extracted PDF with the strategy and sizes in the settings. Text chunks are grouped
+   * under section-level parents of up to parentTokens, split along headings and paragraphs.
+   */
+  static async chunkPDF(
+    extractedPDF: ExtractedPDF,
+    settings: ChunkingSettings = ChunkingStrategies.resolve(extractedPDF),
+    context: ChunkingContext = {}
+  ): Promise<ChunkedDocument> {
+    const flow = PageFlows.join(extractedPDF.extractedText);
+    const spans = await ChunkingStrategies.get(settings.strategy).chunk(flow, settings, context);
+    const sectionSpans = await new ParagraphChunkingStrategy().chunk(flow, { ...settings, maxTokens: settings.parentTokens });
+    
+    const parents = this.toChunks(sectionSpans, flow, extractedPDF, 'section', settings.parentTokens);
+    const children = this.toChunks(spans, flow, extractedPDF, 'chunk', settings.maxTokens);
+    children.forEach(child => {
+      child.chunk.metadata.parentId = this.enclosingSection(parents, child.span)?.chunk.id;
+    });
+    
+    const chunks = children.map(child => child.chunk);
+    // A note referenced from overlapping chunks is chunked once
+    const notes = new Map(children.flatMap(child => child.notes).map(note => [note.id, note]));
+    chunks.push(...notes.values());
+    extractedPDF.extractedText.forEach(pageText => {
+      // Each table becomes its own chunk so rows and columns stay readable
+      pageText.tables.forEach((table, tableIndex) => {
+        chunks.push(...this.chunkTable(table, tableIndex, pageText, extractedPDF.id, extractedPDF.name, settings.maxTokens));
+      });
+    });
+    
+    // Filled-in form values are one record, so chat can answer "what was entered as ..."
+    chunks.push(...this.chunkForm(extractedPDF.formFields, extractedPDF.id, extractedPDF.name, settings.maxTokens));
+    
+    const sections = parents.map(parent => parent.chunk);
+    this.linkCitations([...chunks, ...sections], extractedPDF.bibliography);
+    
+    return { chunks, parents: sections };
+  }
 
   /**
-   * Chunk text from an extracted PDF
+   * Turn spans of the page flow into chunks, numbered per page they start on so ids stay stable when other pages change
    */
-  static chunkPDF(extractedPDF: ExtractedPDF): TextChunk[] {
-    const chunks: TextChunk[] = [];
-    
-    extractedPDF.extractedText.forEach((pageText, pageIndex) => {
-      const pageChunks = this.chunkText(
-        pageText.text,
-        pageText.pageNumber,
-        extractedPDF.id,
-        extractedPDF.name,
-        pageIndex
+  private static toChunks(
+    spans: TextSpan[],
+    flow: PageFlow,
+    extractedPDF: ExtractedPDF,
+    kind: ChunkKind,
+    maxTokens: number
+  ): ChunkWithNotes[] {
+    const chunksPerPage = new Map<number, number>();
+    return spans.flatMap(span => {
+      const pageSpans = PageFlows.locate(flow, span.start, span.end);
+      if (pageSpans.length === 0) {
+        return [];
+      }
+      const chunkIndex = chunksPerPage.get(pageSpans[0].pageNumber) || 0;
+      chunksPerPage.set(pageSpans[0].pageNumber, chunkIndex + 1);
+      const { chunk, notes } = this.createChunk(
+        span.text, pageSpans, extractedPDF.extractedText, kind, chunkIndex, extractedPDF.id, extractedPDF.name, maxTokens
       );
-      chunks.push(...pageChunks);
+      return [{ span, chunk, notes }];
     });
+  }
+
+  /**
+   * The section a chunk shares the most text with; chunk and section boundaries need not line up
+   */
+  private static enclosingSection(sections: ChunkWithNotes[], span: TextSpan): ChunkWithNotes | undefined {
+    let best: ChunkWithNotes | undefined;
+    let bestOverlap = 0;
+    sections.forEach(section => {
+      const overlap = Math.min(section.span.end, span.end) - Math.max(section.span.start, span.start);
+      if (overlap > bestOverlap) {
+        best = section;
+        bestOverlap = overlap;
+      }
+    });
+    return best;
+  }
+
+  /**
+   * Attach citation links to chunks of the body text; the references section itself is left alone
+   */
+  private static linkCitations(chunks: TextChunk[], bibliography: Bibliography | null): void {
+    if (!bibliography) {
+      return;
+    }
     
-    return chunks;
+    chunks.forEach(chunk => {
+      const inReferences = chunk.pageNumber > bibliography.pageNumber
+        || (chunk.pageNumber === bibliography.pageNumber && chunk.metadata.startChar >= bibliography.offset);
+      const prose = chunk.metadata.contentType === 'text' || chunk.metadata.contentType === 'note';
+      if (inReferences || !prose) {
+        return;
+      }
+      
+      const citations = CitationLinker.link(chunk.text, bibliography);
+      if (citations.length > 0) {
+        chunk.metadata.citations = citations;
+      }
+    });
   }
 
   /**
-   * Chunk a single text string
+   * Render a table as Markdown, splitting long tables by rows and repeating the header
    */
-  private static chunkText(
-    text: string,
-    pageNumber: number,
+  private static chunkTable(
+    table: ExtractedTable,
+    tableIndex: number,
+    pageText: ExtractedText,
     pdfId: string,
     pdfName: string,
-    _pageIndex: number
+    maxTokens: number
   ): TextChunk[] {
-    const chunks: TextChunk[] = [];
-    const sentences = this.splitIntoSentences(text);
-    
-    let currentChunk = '';
-    let chunkIndex = 0;
-    let startChar = 0;
+    const [header, ...body] = table.rows;
+    const headerMarkdown = [
+      this.toMarkdownRow(header),
+      this.toMarkdownRow(header.map(() => '---')),
+    ].join('\n');
     
-    for (let i = 0; i < sentences.length; i++) {
-      const sentence = sentences[i];
-      const potentialChunk = currentChunk + (currentChunk ? ' ' : '') + sentence;
-      
-      // If adding this sentence would exceed max size, finalize current chunk
-      if (potentialChunk.length > this.MAX_CHUNK_SIZE && currentChunk.length > this.MIN_CHUNK_SIZE) {
-        chunks.push(this.createChunk(
-          currentChunk,
-          pageNumber,
-          chunkIndex,
-          pdfId,
-          pdfName,
-          startChar,
-          startChar + currentChunk.length
-        ));
-        
-        // Start new chunk with overlap
-        const overlapText = this.getOverlapText(currentChunk);
-        currentChunk = overlapText + (overlapText ? ' ' : '') + sentence;
-        startChar += currentChunk.length - overlapText.length - sentence.length;
-        chunkIndex++;
-      } else {
-        currentChunk = potentialChunk;
+    const headerTokens = Tokenizer.count(headerMarkdown);
+    const parts: string[] = [];
+    let current = headerMarkdown;
+    let currentTokens = headerTokens;
+    body.forEach(row => {
+      const line = this.toMarkdownRow(row);
+      const lineTokens = Tokenizer.count(line) + 1;
+      if (currentTokens + lineTokens > maxTokens && current !== headerMarkdown) {
+        parts.push(current);
+        current = headerMarkdown;
+        currentTokens = headerTokens;
       }
-    }
+      current += '\n' + line;
+      currentTokens += lineTokens;
+    });
+    parts.push(current);
     
-    // Add the last chunk if it has content
-    if (currentChunk.trim().length > 0) {
-      chunks.push(this.createChunk(
-        currentChunk,
-        pageNumber,
-        chunkIndex,
-        pdfId,
-        pdfName,
-        startChar,
-        startChar + currentChunk.length
-      ));
-    }
+    const sectionPath = this.sectionPathAt(pageText, table.offset);
     
-    return chunks;
-  }
-
-  /**
-   * Split text into sentences
-   */
-  private static splitIntoSentences(text: string): string[] {
-    // Simple sentence splitting - can be enhanced with more sophisticated NLP
-    return text
-      .split(/[.!?]+/)
-      .map(sentence => sentence.trim())
-      .filter(sentence => sentence.length > 0);
+    return parts.map((markdown, partIndex) => ({
+      id: `${pdfId}-page${pageText.pageNumber}-table${tableIndex}${parts.length > 1 ? `-part${partIndex}` : ''}`,
+      text: markdown,
+      pageNumber: pageText.pageNumber,
+      chunkIndex: partIndex,
+      pdfId,
+      pdfName,
+      metadata: {
+        startChar: table.offset,
+        endChar: table.offset,
+        endPageNumber: pageText.pageNumber,
+        endPageLabel: pageText.pageLabel,
+        pageSpans: [{ pageNumber: pageText.pageNumber, startChar: table.offset, endChar: table.offset }],
+        wordCount: markdown.split(/\s+/).length,
+        tokenCount: Tokenizer.count(markdown),
+        section: sectionPath.length > 0 ? sectionPath[sectionPath.length - 1] : undefined,
+        sectionPath: sectionPath.length > 0 ? sectionPath : undefined,
+        pageLabel: pageText.pageLabel,
+        contentType: 'table' as const,
+      },
+    }));
   }
-
+  
   /**
-   * Get overlap text from the end of a chunk
+   * List form fields as "label: value" lines, split into parts of at most the chunk size
    */
-  private static getOverlapText(chunk: string): string {
-    if (chunk.length <= this.OVERLAP_SIZE) {
-      return chunk;
+  private static chunkForm(fields: FormField[], pdfId: string, pdfName: string, maxTokens: number): TextChunk[] {
+    if (fields.length === 0) {
+      return [];
     }
     
-    // Find the last complete sentence within the overlap size
-    const overlapText = chunk.slice(-this.OVERLAP_SIZE);
-    const lastSentenceEnd = overlapText.lastIndexOf('.');
+    const heading = 'Form fields and the values entered:';
+    const headingTokens = Tokenizer.count(heading);
+    const parts: { text: string; pageNumber: number; endPageNumber: number }[] = [];
+    let current = { text: heading, pageNumber: fields[0].pageNumber, endPageNumber: fields[0].pageNumber };
+    let currentTokens = headingTokens;
+    fields.forEach(field => {
+      const line = `${field.label || field.name}: ${this.formValue(field)}`;
+      const lineTokens = Tokenizer.count(line) + 1;
+      if (currentTokens + lineTokens > maxTokens && current.text !== heading) {
+        parts.push(current);
+        current = { text: heading, pageNumber: field.pageNumber, endPageNumber: field.pageNumber };
+        currentTokens = headingTokens;
+      }
+      current.text += '\n' + line;
+      current.endPageNumber = Math.max(current.endPageNumber, field.pageNumber);
+      currentTokens += lineTokens;
+    });
+    parts.push(current);
     
-    if (lastSentenceEnd > 0) {
-      return overlapText.slice(lastSentenceEnd + 1).trim();
+    return parts.map((part, partIndex) => ({
+      id: `${pdfId}-form${parts.length > 1 ? `-part${partIndex}` : ''}`,
+      text: part.text,
+      pageNumber: part.pageNumber,
+      chunkIndex: partIndex,
+      pdfId,
+      pdfName,
+      metadata: {
+        startChar: 0,
+        endChar: 0,
+        endPageNumber: part.endPageNumber,
+        pageSpans: [],
+        wordCount: part.text.split(/\s+/).length,
+        tokenCount: Tokenizer.count(part.text),
+        section: 'Form fields',
+        contentType: 'form' as const,
+      },
+    }));
+  }
+  
+  private static formValue(field: FormField): string {
+    if (typeof field.value === 'boolean') {
+      return field.value ? 'checked' : 'not checked';
     }
-    
-    return overlapText;
+    return field.value ?? '(left blank)';
+  }
+  
+  private static toMarkdownRow(cells: string[]): string {
+    return `| ${cells.map(cell => cell.replace(/\|/g, '\\|').replace(/\s+/g, ' ').trim()).join(' | ')} |`;
   }
 
   /**
-   * Create a text chunk object
+   * Create a text chunk object from a span of the page flow. The notes it references are appended while
+   * the chunk stays within maxTokens; text chunks link the others as chunks of their own.
    */
   private static createChunk(
     text: string,
-    pageNumber: number,
+    pageSpans: PageSpan[],
+    pages: ExtractedText[],
+    kind: ChunkKind,
     chunkIndex: number,
     pdfId: string,
     pdfName: string,
-    startChar: number,
-    endChar: number
-  ): TextChunk {
-    return {
-      id: `${pdfId}-page${pageNumber}-chunk${chunkIndex}`,
-      text: text.trim(),
-      pageNumber,
+    maxTokens: number
+  ): { chunk: TextChunk; notes: TextChunk[] } {
+    const first = pageSpans[0];
+    const last = pageSpans[pageSpans.length - 1];
+    const pageOf = (span: PageSpan) => pages.find(page => page.pageNumber === span.pageNumber)!;
+    const startPage = pageOf(first);
+    const sectionPath = this.sectionPathAt(startPage, first.startChar);
+    
+    // Notes travel with the text that references them, from whichever page the reference is on
+    const footnotes: Footnote[] = [];
+    const notes: TextChunk[] = [];
+    let chunkText = text.trim();
+    pageSpans.forEach(span => {
+      const page = pageOf(span);
+      const pageText = page.text.slice(span.startChar, span.endChar);
+      page.footnotes.forEach((note, noteIndex) => {
+        if (!pageText.includes(`[^${note.marker}]`)) {
+          return;
+        }
+        const withNote = `${chunkText}${footnotes.length > 0 ? '\n' : '\n\n'}${this.noteText(note)}`;
+        if (Tokenizer.count(withNote) <= maxTokens) {
+          chunkText = withNote;
+          footnotes.push(note);
+        } else if (kind === 'chunk') {
+          notes.push(...this.chunkNote(note, noteIndex, page, pdfId, pdfName, maxTokens));
+        }
+      });
+    });
+    
+    const chunk: TextChunk = {
+      id: `${pdfId}-page${first.pageNumber}-${kind}${chunkIndex}`,
+      text: chunkText,
+      pageNumber: first.pageNumber,
       chunkIndex,
       pdfId,
       pdfName,
       metadata: {
-        startChar,
-        endChar,
+        startChar: first.startChar,
+        endChar: last.endChar,
+        endPageNumber: last.pageNumber,
+        endPageLabel: pageOf(last).pageLabel,
+        pageSpans,
         wordCount: text.split(/\s+/).length,
-        section: this.detectSection(text),
+        tokenCount: Tokenizer.count(chunkText),
+        // Prefer the PDF outline; fall back to guessing from the first line
+        section: sectionPath.length > 0 ? sectionPath[sectionPath.length - 1] : this.detectSection(text),
+        sectionPath: sectionPath.length > 0 ? sectionPath : undefined,
+        pageLabel: startPage.pageLabel,
+        contentType: 'text',
+        footnotes: footnotes.length > 0 ? footnotes.map(note => note.marker) : undefined,
+        noteChunkIds: notes.length > 0 ? notes.map(note => note.id) : undefined,
       },
     };
+    return { chunk, notes };
+  }
+
+  private static noteText(note: Footnote): string {
+    return `[^${note.marker}]: ${note.text}`;
+  }
+
+  /**
+   * A note too long to append to the text that references it, split into parts of at most maxTokens.
+   * It is placed on its reference marker, which is also where its text starts.
+   */
+  private static chunkNote(
+    note: Footnote,
+    noteIndex: number,
+    page: ExtractedText,
+    pdfId: string,
+    pdfName: string,
+    maxTokens: number
+  ): TextChunk[] {
+    const noteText = this.noteText(note);
+    const parts = TextSpans.windows(noteText, 0, noteText.length, maxTokens, maxTokens).map(part => part.text);
+    const marker = `[^${note.marker}]`;
+    const sectionPath = this.sectionPathAt(page, note.offset);
+    
+    return parts.map((part, partIndex) => ({
+      id: `${pdfId}-page${page.pageNumber}-note${noteIndex}${parts.length > 1 ? `-part${partIndex}` : ''}`,
+      text: part,
+      pageNumber: page.pageNumber,
+      chunkIndex: partIndex,
+      pdfId,
+      pdfName,
+      metadata: {
+        startChar: note.offset,
+        endChar: note.offset + marker.length,
+        endPageNumber: page.pageNumber,
+        endPageLabel: page.pageLabel,
+        pageSpans: [{ pageNumber: page.pageNumber, startChar: note.offset, endChar: note.offset + marker.length }],
+        wordCount: part.split(/\s+/).length,
+        tokenCount: Tokenizer.count(part),
+        section: sectionPath.length > 0 ? sectionPath[sectionPath.length - 1] : undefined,
+        sectionPath: sectionPath.length > 0 ? sectionPath : undefined,
+        pageLabel: page.pageLabel,
+        contentType: 'note' as const,
+        footnotes: [note.marker],
+      },
+    }));
+  }
+
+  /**
+   * Outline section in effect at a character offset of the page text
+   */
+  private static sectionPathAt(pageText: ExtractedText, offset: number): string[] {
+    let path = pageText.sectionPath;
+    
+    pageText.sectionStarts.forEach(start => {
+      if (start.offset <= offset) {
+        path = start.path;
+      }
+    });
+    
+    return path;
   }
 
   /**
@@ -180,15 +424,16 @@ export class TextChunker {
   /**
    * Chunk multiple PDFs
    */
-  static chunkMultiplePDFs(extractedPDFs: ExtractedPDF[]): TextChunk[] {
-    const allChunks: TextChunk[] = [];
+  static async chunkMultiplePDFs(extractedPDFs: ExtractedPDF[], options: ChunkingOptions = {}): Promise<ChunkedDocument> {
+    const all: ChunkedDocument = { chunks: [], parents: [] };
     
-    extractedPDFs.forEach(extractedPDF => {
-      const chunks = this.chunkPDF(extractedPDF);
-      allChunks.push(...chunks);
-    });
+    for (const extractedPDF of extractedPDFs) {
+      const { chunks, parents } = await this.chunkPDF(extractedPDF, ChunkingStrategies.resolve(extractedPDF, options));
+      all.chunks.push(...chunks);
+      all.parents.push(...parents);
+    }
     
-    return allChunks;
+    return all;
   }
 
   /**
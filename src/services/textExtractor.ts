@@ -1,4 +1,15 @@
 import * as pdfjsLib from 'pdfjs-dist';
+import { LayoutAnalyzer, PageLayout, PositionedTextItem, TextLine } from './layoutAnalyzer';
+import { ReadingOrderMode } from './readingOrder';
+import { HeaderFooterDetector, PageLines, RemovedText } from './headerFooterDetector';
+import { OCRService, OffscreenCanvasFactory } from './ocrService';
+import { DocumentStructure, OutlineEntry, SectionStart } from './documentStructure';
+import { TableDetector, ExtractedTable } from './tableDetector';
+import { BibliographyParser, Bibliography } from './bibliographyParser';
+import { FootnoteDetector, Footnote, EndnoteBody } from './footnoteDetector';
+import { PDFAnnotationReader, ImportedAnnotation, FormField } from './pdfAnnotationReader';
+import { ChunkingSettings } from './chunkingStrategy';
+import { DocumentFormat } from '../types';
 
 // Configure PDF.js worker
 pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
@@ -12,70 +23,356 @@ export interface ExtractedText {
     width: number;
     height: number;
   };
+  layout: PageLayout;
+  source: TextSource;
+  ocrConfidence?: number; // 0-1, only set for OCR-derived pages
+  pageLabel?: string; // Printed page label, e.g. "xiv", when it differs from the page number
+  sectionPath: string[]; // Outline section in effect at the top of the page
+  sectionStarts: SectionStart[]; // Outline sections that begin on this page
+  tables: ExtractedTable[]; // Tabular regions, kept out of the page text
+  footnotes: Footnote[]; // Notes referenced from the page text by "[^n]" markers
+  offsetMap?: number[]; // Once the text is normalized: the offset in the composed page text of each character, plus the end
 }
 
+// 'markup' pages come from structured formats (DOCX, EPUB, HTML, Markdown, plain text) and have no layout
+export type TextSource = 'text-layer' | 'ocr' | 'markup';
+
 export interface ExtractedPDF {
   id: string;
   name: string;
-  totalPages: number;
+  format: DocumentFormat;
+  totalPages: number; // Physical pages for PDFs, logical pages (chapters or sections) for other formats
   extractedText: ExtractedText[];
   extractedAt: Date;
+  readingOrder: ReadingOrderMode;
+  removedText: RemovedText[]; // Running heads, footers and page numbers stripped from the page text
+  outline: OutlineEntry[];
+  pageLabels: string[] | null;
+  bibliography: Bibliography | null; // Parsed references section, if the document has one
+  annotations: ImportedAnnotation[]; // Highlights and notes already present in the PDF
+  formFields: FormField[]; // AcroForm fields and the values filled in
+  chunking?: ChunkingSettings; // How the text was chunked, set once the document is processed
+}
+
+export interface ExtractionOptions {
+  // 'layout' reconstructs columns and reading order, 'raw' keeps the content stream order
+  readingOrder?: ReadingOrderMode;
+  // Strip headers, footers, page numbers and banners that repeat across pages (default true)
+  stripRunningText?: boolean;
+  // Pull tables out of the text flow as rows and cells (default true)
+  detectTables?: boolean;
+  // Move footnote bodies out of the text flow and mark their references as "[^n]" (default true)
+  resolveFootnotes?: boolean;
+  // Read existing highlights, notes and form field values (default true)
+  annotations?: boolean;
+  // Recognize pages without a text layer with the bundled OCR engine (default true)
+  ocr?: boolean;
+  // Password for encrypted PDFs; held by the caller for the session and never stored
+  password?: string;
+  onProgress?: (progress: ExtractionProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface ExtractionProgress {
+  pageNumber: number;
+  totalPages: number;
+  stage: 'text' | 'ocr';
+  ocrProgress?: number; // 0-1 within the current page
+}
+
+export type PasswordReason = 'required' | 'incorrect';
+
+/**
+ * Thrown when a PDF is encrypted and no password, or the wrong one, was given
+ */
+export class PasswordRequiredError extends Error {
+  constructor(public readonly reason: PasswordReason) {
+    super(reason === 'incorrect' ? 'Incorrect password for PDF' : 'PDF is password protected');
+    this.name = 'PasswordRequiredError';
+  }
+}
+
+interface PageBuildOptions {
+  readingOrder: ReadingOrderMode;
+  detectTables: boolean;
+  outline: OutlineEntry[];
+  pageLabels: string[] | null;
+  endnotes: Map<string, EndnoteBody> | null; // Null when footnote resolution is off
+}
+
+interface PageData extends PageLines {
+  items: PositionedTextItem[];
+  source: TextSource;
+  ocrConfidence?: number;
 }
 
 export class TextExtractor {
   /**
    * Extract text from a PDF file
    */
-  static async extractTextFromPDF(file: File, pdfId?: string, pdfName?: string): Promise<ExtractedPDF> {
+  static async extractTextFromPDF(
+    file: File,
+    pdfId?: string,
+    pdfName?: string,
+    options: ExtractionOptions = {}
+  ): Promise<ExtractedPDF> {
+    const readingOrder = options.readingOrder || 'layout';
+    const stripRunningText = options.stripRunningText !== false;
+    const useOCR = options.ocr !== false;
+    const readAnnotations = options.annotations !== false;
+    
     try {
       const arrayBuffer = await file.arrayBuffer();
-      const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-      
-      const extractedText: ExtractedText[] = [];
+      // Without a DOM (inside a worker) pages are rendered to offscreen canvases for OCR
+      const renderParams = typeof document === 'undefined'
+        ? { canvasFactory: new OffscreenCanvasFactory(), disableFontFace: true }
+        : {};
+      const pdf = await pdfjsLib.getDocument({ data: arrayBuffer, password: options.password, ...renderParams }).promise;
+      const buildOptions: PageBuildOptions = {
+        readingOrder,
+        detectTables: options.detectTables !== false,
+        outline: await DocumentStructure.extractOutline(pdf),
+        pageLabels: await DocumentStructure.extractPageLabels(pdf),
+        endnotes: null,
+      };
       
-      // Extract text from each page
+      // First pass: position the text items of every page and group them into lines
+      const pages: PageData[] = [];
+      const annotations: ImportedAnnotation[] = [];
+      const formWidgets: FormField[] = [];
       for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+        options.signal?.throwIfAborted();
         const page = await pdf.getPage(pageNum);
         const textContent = await page.getTextContent();
+        const [originX, originY, right, top] = page.view;
+        let items = LayoutAnalyzer.toPositionedItems(textContent.items, originX, originY);
+        let source: TextSource = 'text-layer';
+        let ocrConfidence: number | undefined;
         
-        // Combine all text items from the page
-        const pageText = textContent.items
-          .map((item: any) => item.str)
-          .join(' ');
+        options.onProgress?.({ pageNumber: pageNum, totalPages: pdf.numPages, stage: 'text' });
         
-        if (pageText.trim()) {
-          extractedText.push({
-            text: pageText,
-            pageNumber: pageNum,
-            metadata: {
-              x: 0,
-              y: 0,
-              width: page.view[2],
-              height: page.view[3],
-            },
-          });
+        // Scanned pages have no text layer, so fall back to recognizing the rendered image
+        if (useOCR && !items.some(item => item.text.trim())) {
+          try {
+            const result = await OCRService.recognizePage(page, ocrProgress => {
+              options.onProgress?.({ pageNumber: pageNum, totalPages: pdf.numPages, stage: 'ocr', ocrProgress });
+            });
+            items = LayoutAnalyzer.toPositionedItems(result.items);
+            source = 'ocr';
+            ocrConfidence = result.confidence;
+          } catch (error) {
+            console.warn(`OCR failed for page ${pageNum}:`, error);
+          }
         }
+        
+        if (readAnnotations) {
+          const pageAnnotations = PDFAnnotationReader.readPage(
+            await page.getAnnotations({ intent: 'display' }),
+            items,
+            page.view,
+            pageNum
+          );
+          annotations.push(...pageAnnotations.annotations);
+          formWidgets.push(...pageAnnotations.fields);
+        }
+        
+        pages.push({
+          pageNumber: pageNum,
+          width: right - originX,
+          height: top - originY,
+          items,
+          lines: LayoutAnalyzer.buildLines(items),
+          source,
+          ocrConfidence,
+        });
       }
       
+      // Running text can only be recognized by comparing pages with each other
+      const runningText = stripRunningText ? HeaderFooterDetector.detect(pages) : null;
+      
+      const keptPages = pages.map(page => ({ ...page, lines: runningText?.keptLines.get(page.pageNumber) || page.lines }));
+      
+      // Endnotes are collected up front so references on earlier pages can be resolved
+      if (options.resolveFootnotes !== false) {
+        buildOptions.endnotes = FootnoteDetector.findEndnotes(keptPages);
+      }
+      
+      // Second pass: rebuild reading order, lines and paragraphs from what is left
+      const extractedText: ExtractedText[] = [];
+      keptPages.forEach(page => {
+        const pageText = this.buildPageText(page, page.lines, buildOptions);
+        if (pageText) {
+          extractedText.push(pageText);
+        }
+      });
+      
       return {
         id: pdfId || `${file.name}-${Date.now()}`,
         name: pdfName || file.name,
+        format: 'pdf',
         totalPages: pdf.numPages,
         extractedText,
         extractedAt: new Date(),
+        readingOrder,
+        removedText: runningText?.removed || [],
+        outline: buildOptions.outline,
+        pageLabels: buildOptions.pageLabels,
+        bibliography: BibliographyParser.parse(extractedText),
+        annotations,
+        formFields: PDFAnnotationReader.mergeFields(formWidgets),
       };
     } catch (error) {
+      // Cancellation is not a failure; let the caller see the abort as-is
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      const passwordError = this.toPasswordError(error);
+      if (passwordError) {
+        throw passwordError;
+      }
       console.error('Error extracting text from PDF:', error);
       throw new Error(`Failed to extract text from PDF: ${error}`);
     }
   }
   
+  /**
+   * Check whether a PDF needs a password to open
+   */
+  static async isPasswordProtected(file: File): Promise<boolean> {
+    try {
+      const pdf = await pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+      await pdf.destroy();
+      return false;
+    } catch (error) {
+      return this.toPasswordError(error) !== null;
+    }
+  }
+  
+  /**
+   * Translate the pdf.js password exception into a PasswordRequiredError
+   */
+  private static toPasswordError(error: unknown): PasswordRequiredError | null {
+    if (!(error instanceof Error) || error.name !== 'PasswordException') {
+      return null;
+    }
+    const code = (error as Error & { code?: number }).code;
+    return new PasswordRequiredError(code === pdfjsLib.PasswordResponses.INCORRECT_PASSWORD ? 'incorrect' : 'required');
+  }
+  
+  /**
+   * Rebuild the page text with the stripped running text put back in place, including pages that held nothing else
+   */
+  static restoreRunningText(extractedPDF: ExtractedPDF): ExtractedPDF {
+    if (extractedPDF.removedText.length === 0) {
+      return extractedPDF;
+    }
+    
+    const pageTexts = new Map(extractedPDF.extractedText.map(pageText => [pageText.pageNumber, pageText]));
+    const removedByPage = new Map<number, RemovedText[]>();
+    extractedPDF.removedText.forEach(removed => {
+      removedByPage.set(removed.pageNumber, [...(removedByPage.get(removed.pageNumber) || []), removed]);
+    });
+    const pageNumbers = Array.from(new Set([...pageTexts.keys(), ...removedByPage.keys()])).sort((a, b) => a - b);
+    
+    const pages: PageData[] = pageNumbers.map(pageNumber => {
+      const pageText = pageTexts.get(pageNumber);
+      if (pageText) {
+        const { items, width, height } = pageText.layout;
+        return {
+          pageNumber,
+          width,
+          height,
+          items,
+          lines: LayoutAnalyzer.buildLines(items),
+          source: pageText.source,
+          ocrConfidence: pageText.ocrConfidence,
+        };
+      }
+      // Only running text was on the page, so it is rebuilt from the removed lines alone
+      const removed = removedByPage.get(pageNumber)!;
+      const items = removed.flatMap(line => line.items).sort((a, b) => a.index - b.index);
+      return {
+        pageNumber,
+        ...removed[0].pageSize,
+        items,
+        lines: LayoutAnalyzer.buildLines(items),
+        source: 'text-layer',
+      };
+    });
+    const resolveFootnotes = extractedPDF.extractedText.some(pageText => pageText.footnotes.length > 0);
+    const endnotes = resolveFootnotes ? FootnoteDetector.findEndnotes(pages) : null;
+    
+    const extractedText = pages.flatMap(page => {
+      const pageText = pageTexts.get(page.pageNumber);
+      const restored = this.buildPageText(page, page.lines, {
+        readingOrder: extractedPDF.readingOrder,
+        detectTables: pageText ? pageText.tables.length > 0 : false,
+        outline: extractedPDF.outline,
+        pageLabels: extractedPDF.pageLabels,
+        endnotes,
+      }) || pageText;
+      return restored ? [restored] : [];
+    });
+    
+    return { ...extractedPDF, extractedText, removedText: [], bibliography: BibliographyParser.parse(extractedText) };
+  }
+  
+  /**
+   * Lay out a page and compose its text, or return null when it has no text
+   */
+  private static buildPageText(
+    page: PageData,
+    lines: TextLine[],
+    options: PageBuildOptions
+  ): ExtractedText | null {
+    // Footnotes sit below the body text and would otherwise be read as part of it
+    const noteResult = options.endnotes
+      ? FootnoteDetector.detect(lines, page.height, new Set(options.endnotes.keys()))
+      : { lines, notes: new Map<string, string>() };
+    
+    // Tables are found on stream-order lines, before column detection splits their rows apart
+    const tableResult = options.detectTables
+      ? TableDetector.detect(noteResult.lines, page.width)
+      : { tables: [], remainingLines: noteResult.lines };
+    
+    const layout = LayoutAnalyzer.layoutPage(page.items, tableResult.remainingLines, page.width, page.height, options.readingOrder);
+    const text = LayoutAnalyzer.composeText(layout.paragraphs);
+    const tables = tableResult.tables.map(table => ({
+      ...table,
+      offset: LayoutAnalyzer.offsetAtY(layout.paragraphs, table.bbox.y + table.bbox.height) ?? text.length,
+    }));
+    
+    if (!text.trim() && tables.length === 0) {
+      return null;
+    }
+    
+    const textBounds = LayoutAnalyzer.unionBoxes(layout.paragraphs.map(paragraph => paragraph.bbox));
+    return {
+      text,
+      pageNumber: page.pageNumber,
+      metadata: {
+        x: textBounds.x,
+        y: textBounds.y,
+        width: textBounds.width,
+        height: textBounds.height,
+      },
+      layout,
+      source: page.source,
+      ocrConfidence: page.ocrConfidence,
+      pageLabel: options.pageLabels?.[page.pageNumber - 1],
+      sectionPath: DocumentStructure.sectionAtPageStart(options.outline, page.pageNumber),
+      sectionStarts: DocumentStructure.sectionStartsOnPage(options.outline, page.pageNumber, text, layout.paragraphs),
+      tables,
+      footnotes: options.endnotes ? FootnoteDetector.resolve(text, page.pageNumber, noteResult.notes, options.endnotes) : [],
+    };
+  }
+  
   /**
    * Extract text from multiple PDFs
    */
-  static async extractTextFromMultiplePDFs(files: File[]): Promise<ExtractedPDF[]> {
+  static async extractTextFromMultiplePDFs(files: File[], options: ExtractionOptions = {}): Promise<ExtractedPDF[]> {
     const results = await Promise.all(
-      files.map(file => this.extractTextFromPDF(file))
+      files.map(file => this.extractTextFromPDF(file, undefined, undefined, options))
     );
     return results;
   }
@@ -90,6 +387,13 @@ export class TextExtractor {
       .join('\n\n');
   }
   
+  /**
+   * Get the layout of a specific page
+   */
+  static getPageLayout(extractedPDF: ExtractedPDF, pageNumber: number): PageLayout | undefined {
+    return extractedPDF.extractedText.find(item => item.pageNumber === pageNumber)?.layout;
+  }
+  
   /**
    * Get all text content from a PDF
    */
@@ -0,0 +1,225 @@
+import { ExtractedPDF, ExtractedText } from './textExtractor';
+import { Bibliography } from './bibliographyParser';
+
+export interface NormalizedText {
+  text: string;
+  offsets: number[]; // Original offset of each character of text, plus one entry for the end of the text
+}
+
+// Word forms seen in the document, used to decide how to undo hyphenation
+export interface DocumentDictionary {
+  words: Set<string>; // Lowercased unhyphenated words
+  compounds: Set<string>; // Lowercased hyphenated pairs, e.g. "self-control"
+}
+
+const WORD = /\p{L}+(?:-\p{L}+)*/gu;
+// A hyphen after a word fragment, followed by a line break or a stray space, e.g. "con-\ntract" or "con- tract"
+const BROKEN_WORD = /(?<=(\p{L}+))-(\n|[^\S\n]+)(?=(\p{Ll}+))/gu;
+const INVISIBLE = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F\u200B-\u200D\u2060\uFEFF]+/g;
+
+export class TextNormalizer {
+  /**
+   * Normalize every page of an extracted document and move its offsets over to the normalized text
+   */
+  static normalizePDF(extractedPDF: ExtractedPDF): ExtractedPDF {
+    const dictionary = this.buildDictionary(extractedPDF.extractedText.map(pageText => pageText.text));
+    const pageOffsets = new Map<number, number[]>();
+
+    const extractedText = extractedPDF.extractedText.map((pageText): ExtractedText => {
+      const normalized = this.normalize(pageText.text, dictionary);
+      const toNormalized = (offset: number) => this.toNormalizedOffset(normalized.offsets, offset);
+      pageOffsets.set(pageText.pageNumber, normalized.offsets);
+
+      return {
+        ...pageText,
+        text: normalized.text,
+        // Compose with an earlier map so offsets always lead back to the text as extracted
+        offsetMap: pageText.offsetMap
+          ? normalized.offsets.map(offset => pageText.offsetMap![offset])
+          : normalized.offsets,
+        sectionStarts: pageText.sectionStarts.map(start => ({ ...start, offset: toNormalized(start.offset) })),
+        tables: pageText.tables.map(table => ({
+          ...table,
+          rows: table.rows.map(row => row.map(cell => this.normalize(cell, dictionary).text)),
+          offset: toNormalized(table.offset),
+        })),
+        footnotes: pageText.footnotes.map(note => ({
+          ...note,
+          text: this.normalize(note.text, dictionary).text,
+          offset: toNormalized(note.offset),
+        })),
+      };
+    });
+
+    return {
+      ...extractedPDF,
+      extractedText,
+      bibliography: this.remapBibliography(extractedPDF.bibliography, pageOffsets, dictionary),
+    };
+  }
+
+  /**
+   * Repair hyphenation, expand ligatures, apply NFKC and collapse whitespace, keeping an offset map
+   */
+  static normalize(text: string, dictionary: DocumentDictionary = { words: new Set(), compounds: new Set() }): NormalizedText {
+    let result: NormalizedText = {
+      text,
+      offsets: Array.from({ length: text.length + 1 }, (_, index) => index),
+    };
+
+    result = this.edit(result, /\r\n?/g, () => '\n');
+    // A soft hyphen marks a hyphenation point; drop it together with the break that follows it
+    result = this.edit(result, /\u00AD(?:\n|[^\S\n]+)?/g, () => '');
+    result = this.edit(result, INVISIBLE, () => '');
+
+    // NFKC expands the ﬁ, ﬂ, ﬀ, ﬃ, ﬄ, ﬅ and ﬆ ligatures, full-width forms and compatibility spaces.
+    // Characters are normalized with their combining marks so composition stays within one character
+    if (result.text !== result.text.normalize('NFKC')) {
+      result = this.edit(result, /\P{M}\p{M}*/gu, match => {
+        const normalized = match[0].normalize('NFKC');
+        return normalized === match[0] ? null : normalized;
+      });
+    }
+
+    result = this.edit(result, BROKEN_WORD, match => this.repairHyphen(match[1], match[2], match[3], dictionary));
+
+    result = this.edit(result, /[^\S\n]+/g, match => (match[0] === ' ' ? null : ' '));
+    result = this.edit(result, / +(?=\n)|(?<=\n) +/g, () => '');
+    result = this.edit(result, /\n{3,}/g, () => '\n\n');
+    result = this.edit(result, /^\s+|\s+$/g, () => '');
+
+    return result;
+  }
+
+  /**
+   * Collect the word forms used across a document
+   */
+  static buildDictionary(texts: string[]): DocumentDictionary {
+    const dictionary: DocumentDictionary = { words: new Set(), compounds: new Set() };
+
+    texts.forEach(text => {
+      for (const match of text.normalize('NFKC').matchAll(WORD)) {
+        const parts = match[0].toLowerCase().split('-');
+        if (parts.length === 1) {
+          dictionary.words.add(parts[0]);
+          continue;
+        }
+        for (let i = 0; i < parts.length - 1; i++) {
+          dictionary.compounds.add(`${parts[i]}-${parts[i + 1]}`);
+        }
+      }
+    });
+
+    return dictionary;
+  }
+
+  /**
+   * Offset in the page text as extracted for an offset in the normalized text
+   */
+  static toOriginalOffset(pageText: ExtractedText, offset: number): number {
+    const offsetMap = pageText.offsetMap;
+    if (!offsetMap) {
+      return offset;
+    }
+    return offsetMap[Math.max(0, Math.min(offset, offsetMap.length - 1))];
+  }
+
+  /**
+   * First normalized offset at or after an original offset
+   */
+  static toNormalizedOffset(offsets: number[], original: number): number {
+    let low = 0;
+    let high = offsets.length - 1;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (offsets[middle] < original) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * Decide what replaces the hyphen and break between two word fragments
+   */
+  private static repairHyphen(left: string, separator: string, right: string, dictionary: DocumentDictionary): string | null {
+    const joined = `${left}${right}`.toLowerCase();
+    const compound = `${left}-${right}`.toLowerCase();
+
+    if (dictionary.words.has(joined)) {
+      return '';
+    }
+    if (separator !== '\n') {
+      // Inside a line "pre- and post-" is more likely than a broken word without evidence
+      return null;
+    }
+    // At a line end the hyphen is usually a syllable break unless the document spells the compound
+    return dictionary.compounds.has(compound) ? '-' : '';
+  }
+
+  private static remapBibliography(
+    bibliography: Bibliography | null,
+    pageOffsets: Map<number, number[]>,
+    dictionary: DocumentDictionary
+  ): Bibliography | null {
+    if (!bibliography) {
+      return null;
+    }
+
+    const toNormalized = (pageNumber: number, offset: number) => {
+      const offsets = pageOffsets.get(pageNumber);
+      return offsets ? this.toNormalizedOffset(offsets, offset) : offset;
+    };
+
+    return {
+      ...bibliography,
+      offset: toNormalized(bibliography.pageNumber, bibliography.offset),
+      entries: bibliography.entries.map(entry => ({
+        ...entry,
+        text: this.normalize(entry.text, dictionary).text,
+        offset: toNormalized(entry.pageNumber, entry.offset),
+      })),
+    };
+  }
+
+  /**
+   * Replace pattern matches; replacement characters map to the start of what they replace
+   */
+  private static edit(
+    input: NormalizedText,
+    pattern: RegExp,
+    replace: (match: RegExpMatchArray) => string | null
+  ): NormalizedText {
+    let text = '';
+    const offsets: number[] = [];
+    let last = 0;
+
+    const keep = (end: number) => {
+      text += input.text.slice(last, end);
+      for (let i = last; i < end; i++) {
+        offsets.push(input.offsets[i]);
+      }
+    };
+
+    for (const match of input.text.matchAll(pattern)) {
+      const replacement = replace(match);
+      if (replacement === null) {
+        continue;
+      }
+      const start = match.index!;
+      keep(start);
+      text += replacement;
+      for (let i = 0; i < replacement.length; i++) {
+        offsets.push(input.offsets[start]);
+      }
+      last = start + match[0].length;
+    }
+
+    keep(input.text.length);
+    offsets.push(input.offsets[input.text.length]);
+
+    return { text, offsets };
+  }
+}
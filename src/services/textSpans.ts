@@ -0,0 +1,208 @@
+import { Tokenizer } from './tokenizer';
+import { SentenceSegmenter } from './sentenceSegmenter';
+
+// A stretch of page text with its character offsets
+export interface TextSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Building blocks shared by the chunking strategies: sentences, paragraphs and token-sized packing
+ */
+export class TextSpans {
+  private static readonly MIN_CHUNK_TOKENS = 25;
+  private static readonly MAX_TOKEN_CHARS = 32; // More characters than any one token covers
+
+  /**
+   * The span between two offsets with surrounding whitespace trimmed, or null if it is blank
+   */
+  static span(text: string, start: number, end: number): TextSpan | null {
+    while (start < end && /\s/.test(text[start])) {
+      start++;
+    }
+    while (end > start && /\s/.test(text[end - 1])) {
+      end--;
+    }
+    return start < end ? { text: text.slice(start, end), start, end } : null;
+  }
+
+  static sentences(text: string, start: number = 0, end: number = text.length): TextSpan[] {
+    const sentences: TextSpan[] = [];
+    const add = (from: number, to: number) => {
+      const sentence = this.span(text, from, to);
+      if (sentence) {
+        sentences.push(sentence);
+      }
+    };
+
+    let sentenceStart = start;
+    SentenceSegmenter.boundaries(text, start, end).forEach(sentenceEnd => {
+      add(sentenceStart, sentenceEnd);
+      sentenceStart = sentenceEnd;
+    });
+    add(sentenceStart, end);
+
+    return sentences;
+  }
+
+  /**
+   * Paragraphs as composed by the extractors, separated by blank lines
+   */
+  static paragraphs(text: string): TextSpan[] {
+    const paragraphs: TextSpan[] = [];
+    let paragraphStart = 0;
+    for (const match of text.matchAll(/\n\s*\n/g)) {
+      const paragraph = this.span(text, paragraphStart, match.index!);
+      if (paragraph) {
+        paragraphs.push(paragraph);
+      }
+      paragraphStart = match.index! + match[0].length;
+    }
+    const last = this.span(text, paragraphStart, text.length);
+    if (last) {
+      paragraphs.push(last);
+    }
+    return paragraphs;
+  }
+
+  /**
+   * Pack whole units (sentences, paragraphs) into chunks of at most maxTokens, repeating up to
+   * overlapTokens worth of trailing units at the start of the next chunk
+   */
+  static pack(text: string, units: TextSpan[], maxTokens: number, overlapTokens: number): TextSpan[] {
+    const minTokens = Math.min(this.MIN_CHUNK_TOKENS, Math.floor(maxTokens / 4));
+    // A unit longer than a whole chunk is cut between words
+    const spans = units.flatMap(unit =>
+      Tokenizer.count(unit.text) > maxTokens ? this.windows(text, unit.start, unit.end, maxTokens, maxTokens) : [unit]
+    );
+    // Counted with the whitespace before them, as they appear in a chunk
+    const sized = spans.map((span, index) => ({
+      span,
+      tokens: Tokenizer.count(text.slice(index > 0 ? spans[index - 1].end : span.start, span.end)),
+    }));
+
+    const chunks: TextSpan[] = [];
+    let current: typeof sized = [];
+    let currentTokens = 0;
+    const flush = () => {
+      const chunk = this.span(text, current[0].span.start, current[current.length - 1].span.end);
+      if (!chunk) {
+        return;
+      }
+      // Tokens can merge differently across unit boundaries; a chunk that comes out too long is cut between words
+      if (current.length > 1 && Tokenizer.count(chunk.text) > maxTokens) {
+        chunks.push(...this.windows(text, chunk.start, chunk.end, maxTokens, maxTokens));
+      } else {
+        chunks.push(chunk);
+      }
+    };
+
+    sized.forEach(unit => {
+      if (current.length > 0 && currentTokens + unit.tokens > maxTokens && currentTokens > minTokens) {
+        flush();
+
+        // Carry trailing units over, but never the whole chunk, so every chunk moves forward
+        const overlap: typeof sized = [];
+        let overlapSize = 0;
+        for (let i = current.length - 1; i > 0; i--) {
+          if (overlapSize + current[i].tokens > overlapTokens || overlapSize + current[i].tokens + unit.tokens > maxTokens) {
+            break;
+          }
+          overlap.unshift(current[i]);
+          overlapSize += current[i].tokens;
+        }
+        current = overlap;
+        currentTokens = overlapSize;
+      }
+      current.push(unit);
+      currentTokens += unit.tokens;
+    });
+    if (current.length > 0) {
+      flush();
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Windows of at most size tokens between word boundaries, each starting about stride tokens after the previous one.
+   * A word longer than a whole window (a URL, base64, CJK text without spaces) is cut into pieces that fit.
+   */
+  static windows(text: string, start: number, end: number, size: number, stride: number): TextSpan[] {
+    const words: Array<{ start: number; end: number; tokens: number }> = [];
+    for (const match of text.slice(start, end).matchAll(/\S+/g)) {
+      const wordStart = start + match.index!;
+      this.cutWord(text, wordStart, wordStart + match[0].length, size).forEach(piece => {
+        // Counted with the whitespace before it, as it appears in a window
+        const previousEnd = words.length > 0 ? words[words.length - 1].end : piece.start;
+        words.push({ ...piece, tokens: Tokenizer.count(text.slice(previousEnd, piece.end)) });
+      });
+    }
+
+    const windows: TextSpan[] = [];
+    let first = 0;
+    while (first < words.length) {
+      let last = first;
+      let tokens = words[first].tokens;
+      while (last + 1 < words.length && tokens + words[last + 1].tokens <= size) {
+        last++;
+        tokens += words[last].tokens;
+      }
+      // Tokens can merge differently across word boundaries, so the window itself is measured
+      while (last > first && Tokenizer.count(text.slice(words[first].start, words[last].end)) > size) {
+        last--;
+      }
+      windows.push({ text: text.slice(words[first].start, words[last].end), start: words[first].start, end: words[last].end });
+      if (last === words.length - 1) {
+        break;
+      }
+
+      // Advance by stride tokens, but at least one word and at most past the end of this window
+      let next = first;
+      let advanced = 0;
+      while (next <= last && advanced < stride) {
+        advanced += words[next].tokens;
+        next++;
+      }
+      first = Math.max(next, first + 1);
+    }
+
+    return windows;
+  }
+
+  /**
+   * Cut a word into pieces of at most size tokens. Only a single character that takes more tokens
+   * than that on its own is left longer.
+   */
+  private static cutWord(text: string, start: number, end: number, size: number): Array<{ start: number; end: number }> {
+    if (Tokenizer.count(text.slice(start, end)) <= size) {
+      return [{ start, end }];
+    }
+
+    const pieces: Array<{ start: number; end: number }> = [];
+    let from = start;
+    while (from < end) {
+      // The longest piece that fits, found by bisection
+      let low = from + 1;
+      let high = Math.min(end, from + size * this.MAX_TOKEN_CHARS);
+      while (low < high) {
+        const middle = Math.ceil((low + high) / 2);
+        if (Tokenizer.count(text.slice(from, middle)) <= size) {
+          low = middle;
+        } else {
+          high = middle - 1;
+        }
+      }
+      // Never split a surrogate pair
+      let to = low;
+      if (to < end && /[\uD800-\uDBFF]/.test(text[to - 1])) {
+        to += to - 1 > from ? -1 : 1;
+      }
+      pieces.push({ start: from, end: to });
+      from = to;
+    }
+    return pieces;
+  }
+}
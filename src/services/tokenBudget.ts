@@ -0,0 +1,61 @@
+import { RetryPolicy } from './retryPolicy';
+
+/**
+ * Paces requests to stay under a tokens-per-minute limit. Every caller using the same key shares one
+ * budget, so documents ingested side by side do not each assume the whole limit is theirs.
+ * Budgets live per thread: the ingest worker and the main thread (which embeds queries) each
+ * pace against the whole limit, and the rate-limit retries in RetryPolicy absorb the overlap.
+ */
+export class TokenBudget {
+  private static readonly WINDOW_MS = 60_000;
+  private static budgets: Map<string, TokenBudget> = new Map();
+
+  private spent: Array<{ at: number; tokens: number }> = [];
+  private queue: Promise<void> = Promise.resolve(); // Callers are served in order
+
+  constructor(public readonly tokensPerMinute: number) {}
+
+  /**
+   * The shared budget for a key, created on first use; a changed limit replaces it
+   */
+  static for(key: string, tokensPerMinute: number): TokenBudget {
+    let budget = this.budgets.get(key);
+    if (!budget || budget.tokensPerMinute !== tokensPerMinute) {
+      budget = new TokenBudget(tokensPerMinute);
+      this.budgets.set(key, budget);
+    }
+    return budget;
+  }
+
+  /**
+   * Wait until the tokens fit in the last minute's budget, then spend them
+   */
+  acquire(tokens: number, signal?: AbortSignal): Promise<void> {
+    const turn = this.queue.then(() => this.waitForRoom(tokens, signal));
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  private async waitForRoom(tokens: number, signal?: AbortSignal): Promise<void> {
+    while (true) {
+      signal?.throwIfAborted();
+      const now = Date.now();
+      this.spent = this.spent.filter(entry => now - entry.at < TokenBudget.WINDOW_MS);
+      const used = this.spent.reduce((sum, entry) => sum + entry.tokens, 0);
+
+      // A request larger than the whole budget still goes through, on its own
+      if (used + tokens <= this.tokensPerMinute || this.spent.length === 0) {
+        this.spent.push({ at: now, tokens });
+        return;
+      }
+
+      // Wait for just enough of the oldest spending to leave the window
+      let freed = 0;
+      const enough = this.spent.find(entry => {
+        freed += entry.tokens;
+        return used - freed + tokens <= this.tokensPerMinute;
+      }) || this.spent[this.spent.length - 1];
+      await RetryPolicy.sleep(enough.at + TokenBudget.WINDOW_MS - now, signal);
+    }
+  }
+}
@@ -0,0 +1,20 @@
+import { encode, decode, countTokens } from 'gpt-tokenizer/encoding/cl100k_base';
+
+/**
+ * BPE tokenizer matching the models we call: text-embedding-3-small and gpt-3.5-turbo both use cl100k_base
+ */
+export class Tokenizer {
+  static readonly ENCODING = 'cl100k_base';
+
+  static count(text: string): number {
+    return text ? countTokens(text) : 0;
+  }
+
+  static encode(text: string): number[] {
+    return encode(text);
+  }
+
+  static decode(tokens: number[]): string {
+    return decode(tokens);
+  }
+}
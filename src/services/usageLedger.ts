@@ -0,0 +1,130 @@
+import { UsageMeter, UsageTotals } from './usageMeter';
+import { ModelPricing } from './modelPricing';
+
+export type UsageActivityKind = 'ingest' | 'query';
+
+// One ingest or query and what it spent
+export interface UsageActivity {
+  at: string; // ISO timestamp
+  kind: UsageActivityKind;
+  label: string; // Document name or question
+  pdfId?: string;
+  conversationId?: string;
+  usage: UsageTotals;
+}
+
+interface LedgerData {
+  months: Record<string, UsageTotals>; // "2026-10" -> usage that month
+  documents: Record<string, { name: string; usage: UsageTotals }>; // pdfId -> ingest usage, all time
+  recent: UsageActivity[]; // Newest first
+}
+
+/**
+ * Thrown instead of making a paid call once the month's spending has reached the workspace's budget
+ */
+export class BudgetExceededError extends Error {
+  constructor(public readonly budgetUsd: number, public readonly spentUsd: number) {
+    super(`Monthly budget of ${ModelPricing.format(budgetUsd)} reached (${ModelPricing.format(spentUsd)} spent this month)`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Token usage of a workspace, kept in local storage: totals per month and per document, and the most
+ * recent activity
+ */
+export class UsageLedger {
+  private static readonly STORAGE_PREFIX = 'smart-pdf-reader:usage:';
+  private static readonly MAX_RECENT = 200;
+
+  private data: LedgerData;
+  private listeners: Set<() => void> = new Set();
+
+  constructor(private readonly workspace: string) {
+    this.data = this.load();
+  }
+
+  record(activity: Omit<UsageActivity, 'at'>): void {
+    if (UsageMeter.tokens(activity.usage) === 0) {
+      return;
+    }
+    const now = new Date();
+    const month = UsageLedger.monthKey(now);
+    this.data.months[month] = UsageMeter.add(this.data.months[month], activity.usage);
+    if (activity.kind === 'ingest' && activity.pdfId) {
+      const document = this.data.documents[activity.pdfId];
+      this.data.documents[activity.pdfId] = {
+        name: activity.label,
+        usage: UsageMeter.add(document?.usage, activity.usage),
+      };
+    }
+    this.data.recent = [{ ...activity, at: now.toISOString() }, ...this.data.recent].slice(0, UsageLedger.MAX_RECENT);
+    this.save();
+    this.listeners.forEach(listener => listener());
+  }
+
+  monthUsage(date: Date = new Date()): UsageTotals {
+    return this.data.months[UsageLedger.monthKey(date)] || {};
+  }
+
+  monthCost(date: Date = new Date()): number {
+    return ModelPricing.cost(this.monthUsage(date));
+  }
+
+  documents(): Array<{ pdfId: string; name: string; usage: UsageTotals }> {
+    return Object.entries(this.data.documents).map(([pdfId, document]) => ({ pdfId, ...document }));
+  }
+
+  recent(): UsageActivity[] {
+    return [...this.data.recent];
+  }
+
+  /**
+   * Dollars left this month under a budget; Infinity when there is none
+   */
+  remainingBudget(budgetUsd?: number): number {
+    return budgetUsd === undefined ? Infinity : Math.max(0, budgetUsd - this.monthCost());
+  }
+
+  /**
+   * Throw if this month's spending has reached the budget
+   */
+  assertWithinBudget(budgetUsd?: number): void {
+    if (budgetUsd !== undefined && this.remainingBudget(budgetUsd) <= 0) {
+      throw new BudgetExceededError(budgetUsd, this.monthCost());
+    }
+  }
+
+  /**
+   * Be notified whenever usage is recorded; returns a function that unsubscribes
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static monthKey(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  }
+
+  private load(): LedgerData {
+    const empty: LedgerData = { months: {}, documents: {}, recent: [] };
+    try {
+      const stored = localStorage.getItem(UsageLedger.STORAGE_PREFIX + this.workspace);
+      return stored ? { ...empty, ...JSON.parse(stored) } : empty;
+    } catch (error) {
+      console.warn(`Could not read usage for workspace ${this.workspace}:`, error);
+      return empty;
+    }
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(UsageLedger.STORAGE_PREFIX + this.workspace, JSON.stringify(this.data));
+    } catch (error) {
+      console.warn(`Could not save usage for workspace ${this.workspace}:`, error);
+    }
+  }
+}
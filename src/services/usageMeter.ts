@@ -0,0 +1,44 @@
+// Tokens spent with one model
+export interface ModelUsage {
+  promptTokens: number; // Input tokens; all of an embedding call's tokens count here
+  completionTokens: number;
+  requests: number;
+}
+
+// Usage by model name
+export type UsageTotals = Record<string, ModelUsage>;
+
+/**
+ * Collects the tokens spent by one unit of work, such as a document ingest or a query
+ */
+export class UsageMeter {
+  private totals: UsageTotals = {};
+
+  record(model: string, promptTokens: number, completionTokens: number = 0): void {
+    this.totals = UsageMeter.add(this.totals, { [model]: { promptTokens, completionTokens, requests: 1 } });
+  }
+
+  snapshot(): UsageTotals {
+    return { ...this.totals };
+  }
+
+  /**
+   * Sum of two usage totals, model by model
+   */
+  static add(a: UsageTotals = {}, b: UsageTotals = {}): UsageTotals {
+    const sum: UsageTotals = { ...a };
+    Object.entries(b).forEach(([model, usage]) => {
+      const current = sum[model] || { promptTokens: 0, completionTokens: 0, requests: 0 };
+      sum[model] = {
+        promptTokens: current.promptTokens + usage.promptTokens,
+        completionTokens: current.completionTokens + usage.completionTokens,
+        requests: current.requests + usage.requests,
+      };
+    });
+    return sum;
+  }
+
+  static tokens(totals: UsageTotals = {}): number {
+    return Object.values(totals).reduce((sum, usage) => sum + usage.promptTokens + usage.completionTokens, 0);
+  }
+}
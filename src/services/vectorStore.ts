@@ -1,8 +1,11 @@
-import { EmbeddedChunk } from './embeddingService';
-// import { TextChunk } from './textChunker';
+import { EmbeddedChunk, EmbeddingModelMismatchError, EmbeddingService } from './embeddingService';
+import { TextChunk } from './textChunker';
+import { DuplicateIndex } from './nearDuplicates';
+import { EmbeddingProviders, EmbeddingProvider, EmbeddingProviderConfig } from './embeddingProvider';
+import { UsageMeter } from './usageMeter';
 
 export interface VectorStoreConfig {
-  apiKey: string;
+  embedding: EmbeddingProviderConfig; // Must be the provider and model the stored chunks were embedded with
   indexName?: string;
 }
 
@@ -10,23 +13,54 @@ export interface SearchResult {
   chunk: EmbeddedChunk;
   similarity: number;
   score: number;
+  duplicates: EmbeddedChunk[]; // Other places in the searched documents with nearly the same text
 }
 
 export class VectorStore {
   private embeddedChunks: Map<string, EmbeddedChunk> = new Map();
   private pdfChunks: Map<string, string[]> = new Map(); // pdfId -> chunkIds
-  private config: VectorStoreConfig;
+  private parentChunks: Map<string, TextChunk> = new Map(); // Sections that matched chunks expand to; not searched
+  private duplicates: DuplicateIndex = new DuplicateIndex(); // Boilerplate repeated within and across documents
+  private provider: EmbeddingProvider;
 
   constructor(config: VectorStoreConfig) {
-    this.config = config;
+    this.provider = EmbeddingProviders.create(config.embedding);
   }
 
   /**
-   * Add embedded chunks to the vector store
+   * Model id every chunk in the store, and every query, is embedded with
    */
-  addChunks(embeddedChunks: EmbeddedChunk[]): void {
+  get embeddingModel(): string {
+    return EmbeddingProviders.modelId(this.provider);
+  }
+
+  /**
+   * Switch to another configuration of the same model, such as a moved server; a different model needs
+   * a new store
+   */
+  setEmbedding(embedding: EmbeddingProviderConfig): void {
+    const provider = EmbeddingProviders.create(embedding);
+    const embeddingModel = EmbeddingProviders.modelId(provider);
+    if (embeddingModel !== this.embeddingModel) {
+      throw new EmbeddingModelMismatchError(this.embeddingModel, embeddingModel);
+    }
+    this.provider = provider;
+  }
+
+  /**
+   * Add embedded chunks to the vector store, along with the parent sections they belong to. Chunks
+   * embedded with another model than the store's are refused.
+   */
+  addChunks(embeddedChunks: EmbeddedChunk[], parentChunks: TextChunk[] = []): void {
+    this.assertSameModel(embeddedChunks);
+    parentChunks.forEach(parent => {
+      this.parentChunks.set(parent.id, parent);
+    });
     embeddedChunks.forEach(chunk => {
       this.embeddedChunks.set(chunk.id, chunk);
+      if (chunk.metadata.minhash) {
+        this.duplicates.add(chunk.id, chunk.metadata.minhash);
+      }
       
       // Track chunks by PDF
       if (!this.pdfChunks.has(chunk.pdfId)) {
@@ -43,8 +77,35 @@ export class VectorStore {
     const chunkIds = this.pdfChunks.get(pdfId) || [];
     chunkIds.forEach(chunkId => {
       this.embeddedChunks.delete(chunkId);
+      this.duplicates.remove(chunkId);
     });
     this.pdfChunks.delete(pdfId);
+    this.parentChunks.forEach((parent, parentId) => {
+      if (parent.pdfId === pdfId) {
+        this.parentChunks.delete(parentId);
+      }
+    });
+  }
+
+  /**
+   * Check if any chunks of a PDF are stored
+   */
+  hasPDF(pdfId: string): boolean {
+    return this.pdfChunks.has(pdfId);
+  }
+
+  /**
+   * The parent sections of a PDF's chunks
+   */
+  getParentsForPDF(pdfId: string): TextChunk[] {
+    return Array.from(this.parentChunks.values()).filter(parent => parent.pdfId === pdfId);
+  }
+
+  /**
+   * The parent section of a chunk, if it has one
+   */
+  getParent(chunk: TextChunk): TextChunk | undefined {
+    return chunk.metadata.parentId ? this.parentChunks.get(chunk.metadata.parentId) : undefined;
   }
 
   /**
@@ -72,14 +133,13 @@ export class VectorStore {
   async search(
     query: string,
     pdfIds: string[],
-    topK: number = 5
+    topK: number = 5,
+    meter?: UsageMeter
   ): Promise<SearchResult[]> {
     console.log(`Vector store search: query="${query}", pdfIds=[${pdfIds.join(', ')}], topK=${topK}`);
     
-    const { EmbeddingService } = await import('./embeddingService');
-    
     // Generate embedding for the query
-    const queryEmbedding = await EmbeddingService.generateEmbedding(query, this.config.apiKey);
+    const queryEmbedding = await EmbeddingService.generateEmbedding(query, this.provider, undefined, meter);
     console.log('Query embedding generated, dimension:', queryEmbedding.length);
     
     // Get chunks for the specified PDFs
@@ -91,21 +151,56 @@ export class VectorStore {
       return [];
     }
     
-    // Find similar chunks
+    // Rank every chunk, so topK distinct passages remain once duplicates are collapsed
     const similarChunks = EmbeddingService.findSimilarChunks(
-      queryEmbedding,
+      { embedding: queryEmbedding, embeddingModel: this.embeddingModel },
       relevantChunks,
-      topK
+      relevantChunks.length
     );
     
-    console.log(`Found ${similarChunks.length} similar chunks`);
+    const results = this.collapseDuplicates(similarChunks, relevantChunks).slice(0, topK);
+    console.log(`Found ${results.length} similar chunks`);
+    return results;
+  }
+
+  /**
+   * Keep one result per group of near-duplicate chunks: the group's canonical chunk among the searched
+   * documents, scored by its best-matching occurrence
+   */
+  private collapseDuplicates(
+    similarChunks: Array<{ chunk: EmbeddedChunk; similarity: number }>,
+    searchedChunks: EmbeddedChunk[]
+  ): SearchResult[] {
+    const searched = new Map(searchedChunks.map(chunk => [chunk.id, chunk]));
+    const seenGroups = new Set<string>();
+    const results: SearchResult[] = [];
+    
+    similarChunks.forEach(({ chunk, similarity }) => {
+      const groupKey = this.duplicates.groupKey(chunk.id);
+      if (seenGroups.has(groupKey)) {
+        return;
+      }
+      seenGroups.add(groupKey);
+      
+      const [canonical, ...duplicates] = this.duplicates.occurrences(chunk.id)
+        .map(chunkId => searched.get(chunkId))
+        .filter((occurrence): occurrence is EmbeddedChunk => occurrence !== undefined);
+      results.push({
+        chunk: canonical,
+        similarity,
+        score: similarity, // Can be enhanced with additional scoring logic
+        duplicates,
+      });
+    });
     
-    // Convert to search results with scores
-    return similarChunks.map(({ chunk, similarity }) => ({
-      chunk,
-      similarity,
-      score: similarity, // Can be enhanced with additional scoring logic
-    }));
+    return results;
+  }
+
+  private assertSameModel(embeddedChunks: EmbeddedChunk[]): void {
+    const foreign = embeddedChunks.find(chunk => chunk.embeddingModel !== this.embeddingModel);
+    if (foreign) {
+      throw new EmbeddingModelMismatchError(this.embeddingModel, foreign.embeddingModel);
+    }
   }
 
   /**
@@ -115,6 +210,7 @@ export class VectorStore {
     totalChunks: number;
     totalPDFs: number;
     chunksPerPDF: Record<string, number>;
+    duplicateChunks: number;
   } {
     const chunksPerPDF: Record<string, number> = {};
     
@@ -126,6 +222,7 @@ export class VectorStore {
       totalChunks: this.embeddedChunks.size,
       totalPDFs: this.pdfChunks.size,
       chunksPerPDF,
+      duplicateChunks: this.duplicates.duplicateCount(),
     };
   }
 
@@ -135,6 +232,8 @@ export class VectorStore {
   clear(): void {
     this.embeddedChunks.clear();
     this.pdfChunks.clear();
+    this.parentChunks.clear();
+    this.duplicates.clear();
   }
 
   /**
@@ -143,15 +242,17 @@ export class VectorStore {
   exportData(): {
     embeddedChunks: EmbeddedChunk[];
     pdfChunks: Record<string, string[]>;
+    parentChunks: TextChunk[];
   } {
     const embeddedChunks = Array.from(this.embeddedChunks.values());
+    const parentChunks = Array.from(this.parentChunks.values());
     const pdfChunks: Record<string, string[]> = {};
     
     this.pdfChunks.forEach((chunkIds, pdfId) => {
       pdfChunks[pdfId] = chunkIds;
     });
     
-    return { embeddedChunks, pdfChunks };
+    return { embeddedChunks, pdfChunks, parentChunks };
   }
 
   /**
@@ -160,11 +261,20 @@ export class VectorStore {
   importData(data: {
     embeddedChunks: EmbeddedChunk[];
     pdfChunks: Record<string, string[]>;
+    parentChunks?: TextChunk[]; // Missing from data exported before chunks had parents
   }): void {
+    this.assertSameModel(data.embeddedChunks);
     this.clear();
     
+    data.parentChunks?.forEach(parent => {
+      this.parentChunks.set(parent.id, parent);
+    });
+    
     data.embeddedChunks.forEach(chunk => {
       this.embeddedChunks.set(chunk.id, chunk);
+      if (chunk.metadata.minhash) {
+        this.duplicates.add(chunk.id, chunk.metadata.minhash);
+      }
     });
     
     Object.entries(data.pdfChunks).forEach(([pdfId, chunkIds]) => {
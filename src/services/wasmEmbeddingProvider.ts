@@ -0,0 +1,63 @@
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+import { EmbeddingProvider, EmbeddingProviderConfig, EmbeddingBatch } from './embeddingProvider';
+import { Tokenizer } from './tokenizer';
+
+/**
+ * Embeddings from a sentence-transformers model run in-process with ONNX Runtime's WASM backend, so no
+ * text leaves the browser. The model files are downloaded on first use and cached by the browser.
+ */
+export class WasmEmbeddingProvider implements EmbeddingProvider {
+  static readonly DEFAULT_MODEL = 'Xenova/all-MiniLM-L6-v2';
+  // Loading a model is slow and memory-hungry, so every provider for the same model shares one
+  private static pipelines: Map<string, Promise<FeatureExtractionPipeline>> = new Map();
+
+  readonly kind = 'wasm';
+  readonly model: string;
+  readonly maxBatchSize = 32;
+  readonly cacheable = true;
+  private readonly baseUrl?: string;
+
+  constructor(config: EmbeddingProviderConfig) {
+    this.model = config.model || WasmEmbeddingProvider.DEFAULT_MODEL;
+    this.baseUrl = config.baseUrl;
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<EmbeddingBatch> {
+    const extractor = await this.getPipeline();
+    // Inference itself cannot be interrupted, so cancellation is honoured around it
+    signal?.throwIfAborted();
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    signal?.throwIfAborted();
+    return {
+      embeddings: output.tolist() as number[][],
+      promptTokens: texts.reduce((sum, text) => sum + Tokenizer.count(text), 0),
+    };
+  }
+
+  /**
+   * Lazily load the model, once per model name
+   */
+  private getPipeline(): Promise<FeatureExtractionPipeline> {
+    const pipelines = WasmEmbeddingProvider.pipelines;
+    let loading = pipelines.get(this.model);
+    if (!loading) {
+      loading = (async () => {
+        const { pipeline, env } = await import('@huggingface/transformers');
+        if (this.baseUrl) {
+          env.remoteHost = this.baseUrl;
+        }
+        // pipeline()'s own return type spans every task, which is too large for the compiler to check here
+        const createExtractor = pipeline as (task: 'feature-extraction', model: string, options: { device: 'wasm' }) =>
+          Promise<FeatureExtractionPipeline>;
+        return createExtractor('feature-extraction', this.model, { device: 'wasm' });
+      })();
+
+      // Allow a retry if the model failed to load
+      loading.catch(() => {
+        pipelines.delete(this.model);
+      });
+      pipelines.set(this.model, loading);
+    }
+    return loading;
+  }
+}
@@ -0,0 +1,50 @@
+import { EmbeddingProviderConfig, EmbeddingProviderKind, EmbeddingProviders } from './embeddingProvider';
+
+export interface WorkspaceSettingsData {
+  embedding: EmbeddingProviderConfig;
+  monthlyBudgetUsd?: number; // Cap on the estimated cost of paid calls per calendar month
+}
+
+/**
+ * Settings that belong to a workspace (each signed-in account has one), kept in local storage. Defaults
+ * come from the build environment.
+ */
+export class WorkspaceSettings {
+  private static readonly STORAGE_PREFIX = 'smart-pdf-reader:workspace:';
+
+  static defaults(): WorkspaceSettingsData {
+    const env = import.meta.env;
+    const kind = env.VITE_EMBEDDING_PROVIDER as EmbeddingProviderKind | undefined;
+    return {
+      embedding: {
+        kind: kind && EmbeddingProviders.get(kind) ? kind : 'openai',
+        model: env.VITE_EMBEDDING_MODEL || undefined,
+        baseUrl: env.VITE_EMBEDDING_BASE_URL || undefined,
+      },
+    };
+  }
+
+  static load(workspace: string): WorkspaceSettingsData {
+    const defaults = this.defaults();
+    try {
+      const stored = localStorage.getItem(this.STORAGE_PREFIX + workspace);
+      if (!stored) {
+        return defaults;
+      }
+      const settings: Partial<WorkspaceSettingsData> = JSON.parse(stored);
+      const embedding = settings.embedding && EmbeddingProviders.get(settings.embedding.kind)
+        ? settings.embedding
+        : defaults.embedding;
+      return { ...defaults, ...settings, embedding };
+    } catch (error) {
+      console.warn(`Could not read settings for workspace ${workspace}:`, error);
+      return defaults;
+    }
+  }
+
+  static save(workspace: string, settings: WorkspaceSettingsData): void {
+    // API keys stay out of storage; OpenAI's comes from the environment
+    const { apiKey, ...embedding } = settings.embedding;
+    localStorage.setItem(this.STORAGE_PREFIX + workspace, JSON.stringify({ ...settings, embedding }));
+  }
+}
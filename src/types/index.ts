@@ -60,3 +60,17 @@ export interface RAGResponse {
     totalDocuments: number;
   };
 }
+
+// Background ingest (extraction -> chunking -> embedding) progress and worker protocol
+
+export type IngestStage = 'extracting' | 'chunking' | 'embedding';
+
+export interface IngestProgress {
+  stage: IngestStage;
+  completed: number; // Pages extracted, chunks created or chunks embedded so far
+  total: number;
+}
+
+// Document formats that can be uploaded and ingested
+
+export type DocumentFormat = 'pdf' | 'docx' | 'epub' | 'markdown' | 'html' | 'text';
@@ -4,8 +4,16 @@ interface ImportMetaEnv {
   readonly VITE_OPENAI_API_KEY: string
   readonly VITE_SUPABASE_URL: string
   readonly VITE_SUPABASE_ANON_KEY: string
+  readonly VITE_EMBEDDING_PROVIDER?: string
+  readonly VITE_EMBEDDING_MODEL?: string
+  readonly VITE_EMBEDDING_BASE_URL?: string
 }
 
 interface ImportMeta {
   readonly env: ImportMetaEnv
 }
+
+// The pdf.js worker code, run in-thread by the ingest worker
+declare module 'pdfjs-dist/build/pdf.worker' {
+  export const WorkerMessageHandler: unknown
+}
@@ -0,0 +1,47 @@
+import { IngestPipeline, IngestFailedError, IngestWorkerRequest, IngestWorkerResponse } from '../services/ingestPipeline';
+import { PasswordRequiredError } from '../services/textExtractor';
+import * as pdfjsWorker from 'pdfjs-dist/build/pdf.worker';
+
+// pdf.js cannot start its own worker from here (it needs window and document), so it runs its worker code on this thread
+(globalThis as { pdfjsWorker?: unknown }).pdfjsWorker = pdfjsWorker;
+
+// Runs the ingest pipeline off the main thread so large uploads do not freeze the UI
+const workerScope = self as unknown as Worker;
+const controllers = new Map<string, AbortController>();
+
+const send = (message: IngestWorkerResponse) => workerScope.postMessage(message);
+
+workerScope.onmessage = async (event: MessageEvent<IngestWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    controllers.get(request.jobId)?.abort();
+    return;
+  }
+
+  const controller = new AbortController();
+  controllers.set(request.jobId, controller);
+
+  try {
+    const result = await IngestPipeline.run(request.job, {
+      signal: controller.signal,
+      onProgress: progress => send({ type: 'progress', jobId: request.jobId, progress }),
+    });
+    send({ type: 'done', jobId: request.jobId, result });
+  } catch (error) {
+    send({
+      type: 'error',
+      jobId: request.jobId,
+      message: error instanceof Error ? error.message : String(error),
+      aborted: controller.signal.aborted,
+      passwordReason: error instanceof PasswordRequiredError ? error.reason : undefined,
+      checkpoint: error instanceof IngestFailedError ? error.checkpoint : undefined,
+      usage: error instanceof IngestFailedError ? error.usage : undefined,
+      budget: error instanceof IngestFailedError && error.budgetExceeded
+        ? { budgetUsd: error.budgetExceeded.budgetUsd, spentUsd: error.budgetExceeded.spentUsd }
+        : undefined,
+    });
+  } finally {
+    controllers.delete(request.jobId);
+  }
+};
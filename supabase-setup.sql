@@ -30,6 +30,8 @@ CREATE TABLE pdfs (
     name VARCHAR(255) NOT NULL,
     size BIGINT NOT NULL,
     url TEXT NOT NULL,
+    is_locked BOOLEAN NOT NULL DEFAULT FALSE,
+    reading_order VARCHAR(10) NOT NULL DEFAULT 'layout',
     upload_date TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
@@ -42,6 +44,7 @@ CREATE TABLE conversations (
     title VARCHAR(255) NOT NULL,
     pdf_ids UUID[] NOT NULL DEFAULT '{}',
     messages JSONB NOT NULL DEFAULT '[]',
+    usage JSONB NOT NULL DEFAULT '{}',
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
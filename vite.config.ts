@@ -17,6 +17,10 @@ export default defineConfig({
     outDir: 'dist',
     sourcemap: true,
   },
+  worker: {
+    // ES module workers allow code-splitting (e.g. the lazily loaded OCR engine)
+    format: 'es',
+  },
   optimizeDeps: {
     include: ['@react-pdf-viewer/core', '@react-pdf-viewer/default-layout']
   },